@@ -15,6 +15,86 @@ function hasImportedUseEffect(name) {
   return useEffectNameGroups.some((group) => group.includes(name));
 }
 
+const reactImportGroups = [];
+function hasImportedReact() {
+  return reactImportGroups.some((group) => group.length > 0);
+}
+
+// 原生标签上需要在运行时转换的 React 属性，转换逻辑见 solid-react-adapter/dom-props.ts
+const translatedDomProps = [
+  "style",
+  "htmlFor",
+  "tabIndex",
+  "dangerouslySetInnerHTML",
+  "defaultValue",
+  "defaultChecked",
+];
+
+// 除列出的属性外，驼峰命名的属性（如 SVG 的 strokeWidth、xlinkHref）同样需要转换，
+// className 由 Solid 自行处理，带事件的标签在运行时创建
+function shouldTranslateDomProp(name) {
+  return (
+    typeof name === "string" &&
+    (translatedDomProps.includes(name) ||
+      (/[A-Z]/.test(name) && name !== "className" && !/^on[A-Z]/.test(name)))
+  );
+}
+
+// 带 key 的原生标签需要按 key 复用，带 value、checked 的表单元素需要按 React 的受控语义处理，
+// onChange、onDoubleClick 等事件需要经过合成事件转换为对应的原生事件，这些标签都交给运行时创建
+function isRuntimeNativeTag(tagName, propNames) {
+  return (
+    /^[a-z][a-z0-9]*$/.test(tagName) &&
+    propNames.some(
+      (name) =>
+        name === "key" ||
+        /^on[A-Z]/.test(name) ||
+        (/^(input|textarea|select)$/.test(tagName) &&
+          /^(value|checked|defaultValue)$/.test(name))
+    )
+  );
+}
+
+function isNativeOpeningElement(source, openingElement) {
+  return (
+    !!openingElement &&
+    openingElement.type === "JSXOpeningElement" &&
+    /^[a-z]/.test(handleTagName(source, openingElement.name))
+  );
+}
+
+// 通过 getter 传入属性值，保留表达式的响应能力
+function translateDomPropStr(name, valueStr) {
+  return `{...__translateDomProps__({get ${name}(){return ${valueStr}}})}`;
+}
+
+// 作为子节点的标识符可能是数组类型的 state，包一层函数，在 effect 中插入才能保持响应
+function identifierChildStr(name) {
+  return `{(function(){return ${name}})()}`;
+}
+
+// useState 返回的 Proxy 永远是真值，!、??、=== null 等运算无法被拦截，
+// 参与这些运算的标识符先读取出 state 的值，值为 null、undefined 时判断才正确
+function isStateTestPosition(parent, key) {
+  switch (parent.type) {
+    case "UnaryExpression":
+      return parent.operator === "!" || parent.operator === "typeof";
+    case "LogicalExpression":
+      return key === "left";
+    case "BinaryExpression":
+      return /^[!=]==?$/.test(parent.operator);
+    case "ConditionalExpression":
+    case "IfStatement":
+      return key === "test";
+    default:
+      return false;
+  }
+}
+
+function readStateStr(name) {
+  return `(Object(${name}) === ${name} && Symbol.solidPatchDeps in ${name} ? ${name}[Symbol.symbolValidate] : ${name})`;
+}
+
 const regAnonymousFunction = /(?<=function\s*)\(/;
 function handleBeforeAST(source) {
   const resAnonymousFunction = regAnonymousFunction.exec(source);
@@ -35,6 +115,8 @@ function transformSource(source) {
   createElementNameGroups.push(createElementNames);
   const useEffectNames = [];
   useEffectNameGroups.push(useEffectNames);
+  const reactImports = [];
+  reactImportGroups.push(reactImports);
   source = handleBeforeAST(source);
   // 如果是函数，外面需要包一层括号，否则报错
   const ast = JSXParser.parse(source, {
@@ -48,6 +130,7 @@ function transformSource(source) {
       switch (node.type) {
         case "ImportDeclaration":
           if (node.source.value === "react") {
+            reactImports.push(node.source.value);
             node.specifiers.forEach((specifier) => {
               if (
                 specifier.type === "ImportDefaultSpecifier" ||
@@ -153,9 +236,44 @@ function transformSource(source) {
               });
           }
           break;
+        case "JSXAttribute":
+          if (
+            node.value &&
+            (node.value.type === "JSXExpressionContainer" ||
+              node.value.type === "Literal") &&
+            shouldTranslateDomProp(node.name.name) &&
+            isNativeOpeningElement(source, this.parent.parent.node)
+          ) {
+            results.push(source.slice(lastIndex, node.start));
+            results.push(
+              translateDomPropStr(
+                node.name.name,
+                node.value.type === "Literal"
+                  ? node.value.raw
+                  : transformSource(
+                      `(${source.slice(node.value.expression.start, node.value.expression.end)})`
+                    )
+              )
+            );
+            lastIndex = node.end;
+          }
+          break;
+        case "JSXSpreadAttribute":
+          if (isNativeOpeningElement(source, this.parent.parent.node)) {
+            results.push(source.slice(lastIndex, node.start));
+            results.push(
+              `{...__translateDomProps__(${transformSource(
+                `(${source.slice(node.argument.start, node.argument.end)})`
+              )})}`
+            );
+            lastIndex = node.end;
+          }
+          break;
         case "JSXExpressionContainer":
           if (
-            node.expression.type !== "Identifier" &&
+            // 作为子节点的标识符同样需要包一层函数，见 identifierChildStr
+            (node.expression.type !== "Identifier" ||
+              this.parent.key === "children") &&
             node.expression.type !== "FunctionExpression" &&
             node.expression.type !== "CallExpression"
           ) {
@@ -178,10 +296,22 @@ function transformSource(source) {
           }
           break;
         case "JSXElement":
-          const tagName = node.openingElement.name.name;
-          if (!/^[a-z]/.test(tagName)) {
+          const tagName = handleTagName(source, node.openingElement.name);
+          const isNativeTag = /^[a-z]/.test(tagName);
+          const isRuntimeTag =
+            isNativeTag &&
+            isRuntimeNativeTag(
+              tagName,
+              node.openingElement.attributes
+                .filter((attr) => attr.type === "JSXAttribute")
+                .map((attr) => attr.name.name)
+            );
+          if (!isNativeTag || isRuntimeTag) {
             // 非小写字母开头的 jsx tag，为了避免字符串变量的使用，包一层函数
-            let newName = tagName + "_";
+            // 如 React.Fragment 这样的成员表达式，取最后一段作为新的变量名
+            let newName = isRuntimeTag
+              ? `${tagName[0].toUpperCase()}${tagName.slice(1)}_`
+              : tagName.split(".").pop() + "_";
             const nodeStr = source.slice(node.start, node.end);
             while (
               newName === "__wrapSolidComp__" ||
@@ -195,21 +325,37 @@ function transformSource(source) {
               node.openingElement.end
             )}`;
             const childrenStr = node.children.reduce((str, child) => {
+              // 文本原样保留，不能当作代码解析
+              if (child.type === "JSXText") {
+                return str + source.slice(child.start, child.end);
+              }
               let childStr = transformSource(
                 source.slice(child.start, child.end)
               );
               if (child.type === "JSXElement") {
                 childStr = `{${childStr}}`;
+              } else if (
+                child.type === "JSXExpressionContainer" &&
+                child.expression.type !== "JSXEmptyExpression" &&
+                child.expression.type !== "FunctionExpression" &&
+                child.expression.type !== "CallExpression"
+              ) {
+                // 单独转换的表达式不再是 JSX 表达式容器，与上面一样包一层立即执行的函数，
+                // 否则 n + 1 这类表达式会被 Solid 当作静态的值
+                childStr = `{(function(){return ${transformSource(
+                  source.slice(child.expression.start, child.expression.end)
+                )}})()}`;
               }
               return str + childStr;
             }, "");
             const closingElementStr = node.closingElement
               ? `</${newName}>`
               : "";
-            let result = `(()=>{var ${newName} = __wrapSolidComp__(${tagName});return ${openingElementStr}${childrenStr}${closingElementStr}})()`;
+            let result = `(()=>{var ${newName} = __wrapSolidComp__(${isRuntimeTag ? `"${tagName}"` : tagName});return ${openingElementStr}${childrenStr}${closingElementStr}})()`;
             if (
               this.parent.key === "children" &&
-              this.parent.parent.node.type === "JSXElement"
+              (this.parent.parent.node.type === "JSXElement" ||
+                this.parent.parent.node.type === "JSXFragment")
             ) {
               result = `{${result}}`;
             }
@@ -217,6 +363,23 @@ function transformSource(source) {
             lastIndex = node.end;
           }
           break;
+        case "Identifier":
+          // 只转换引入了 react 的模块，适配层自身的代码不受影响
+          if (
+            node.name !== "undefined" &&
+            hasImportedReact() &&
+            isStateTestPosition(this.parent.node, this.key)
+          ) {
+            results.push(source.slice(lastIndex, node.start));
+            results.push(
+              // typeof 可以用于未声明的变量，不能直接读取
+              this.parent.node.operator === "typeof"
+                ? `(typeof ${node.name} === "undefined" ? undefined : ${readStateStr(node.name)})`
+                : readStateStr(node.name)
+            );
+            lastIndex = node.end;
+          }
+          break;
         default:
           break;
       }
@@ -232,6 +395,7 @@ function transformSource(source) {
     1
   );
   useEffectNameGroups.splice(useEffectNameGroups.indexOf(useEffectNames), 1);
+  reactImportGroups.splice(reactImportGroups.indexOf(reactImports), 1);
   return source;
 }
 
@@ -266,16 +430,27 @@ function handleValue(source, value) {
   return result;
 }
 
-function handleProps(source, props) {
+function handleTagName(source, name) {
+  // 成员表达式（React.Fragment）与带命名空间的标签（svg:rect）没有 name 属性
+  return name.type === "JSXIdentifier"
+    ? name.name
+    : source.slice(name.start, name.end);
+}
+
+function handleProps(source, props, isNative = false) {
   let result = "";
   switch (props.type) {
     case "ObjectExpression": {
       result = props.properties
-        .map((prop) => handleProps(source, prop))
+        .map((prop) => handleProps(source, prop, isNative))
         .join(" ");
       break;
     }
     case "Identifier": {
+      if (isNative) {
+        result = `{...__translateDomProps__(${props.name})}`;
+        break;
+      }
       const propsValue = props.value ?? {};
       result = Object.keys(propsValue)
         .map((key) => {
@@ -293,15 +468,26 @@ function handleProps(source, props) {
       if (props.value.type === "CallExpression") {
         value = transformSource(value);
       }
+      if (isNative && shouldTranslateDomProp(key)) {
+        result = translateDomPropStr(
+          key,
+          props.value.type === "Literal" ? props.value.raw : `(${value})`
+        );
+        break;
+      }
       result = `${key}=${props.value.type === "Literal" && typeof value === "string" ? `${props.value.raw}` : `{${value}}`}`;
       break;
     }
     case "SpreadElement": {
-      result = `{${source.slice(props.start, props.end)}}`;
+      result = isNative
+        ? `{...__translateDomProps__(${source.slice(props.argument.start, props.argument.end)})}`
+        : `{${source.slice(props.start, props.end)}}`;
       break;
     }
     default: {
-      result = `{...(${source.slice(props.start, props.end)})}`;
+      result = isNative
+        ? `{...__translateDomProps__(${source.slice(props.start, props.end)})}`
+        : `{...(${source.slice(props.start, props.end)})}`;
       break;
     }
   }
@@ -315,7 +501,7 @@ function handleCreateElement(source, node) {
     .map((child) => {
       switch (child.type) {
         case "Identifier":
-          return `{${child.name}}`;
+          return identifierChildStr(child.name);
         case "JSXElement":
           return transformSource(source.slice(child.start, child.end));
         default:
@@ -323,7 +509,19 @@ function handleCreateElement(source, node) {
       }
     })
     .join("");
-  switch (identifier.type) {
+  const isRuntimeTag =
+    identifier.type === "Literal" &&
+    props.type === "ObjectExpression" &&
+    isRuntimeNativeTag(
+      identifier.value,
+      props.properties
+        .filter((prop) => prop.type === "Property")
+        .map((prop) => handleValue(source, prop.key))
+    );
+  switch (isRuntimeTag ? "RuntimeLiteral" : identifier.type) {
+    // 标识符可能是组件、Fragment，也可能是保存了标签名的变量，统一在运行时处理
+    case "RuntimeLiteral":
+    case "Identifier":
     case "MemberExpression":
     case "LogicalExpression":
     case "ConditionalExpression": {
@@ -337,7 +535,7 @@ function handleCreateElement(source, node) {
       ) {
         tag += "_";
       }
-      return `(function(){var ${tag}=__wrapSolidComp__(${identifierStr});return ${
+      return `(function(){var ${tag}=__wrapSolidComp__(${isRuntimeTag ? identifier.raw : identifierStr});return ${
         childrenStr
           ? `<${tag} ${propsStr}>${childrenStr}</${tag}>`
           : `<${tag} ${propsStr}/>`
@@ -345,8 +543,8 @@ function handleCreateElement(source, node) {
     }
     default: {
       return childrenStr
-        ? `<${identifierStr} ${handleProps(source, props)}>${childrenStr}</${identifierStr}>`
-        : `<${identifierStr} ${handleProps(source, props)} />`;
+        ? `<${identifierStr} ${handleProps(source, props, true)}>${childrenStr}</${identifierStr}>`
+        : `<${identifierStr} ${handleProps(source, props, true)} />`;
     }
   }
 }
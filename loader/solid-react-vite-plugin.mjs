@@ -0,0 +1,103 @@
+import { createRequire } from "module";
+import path from "path";
+import ts from "typescript";
+
+// vite.config.mts 会以 ESM 的形式打包，CommonJS 的 loader 不能被一起打包，需要在运行时加载
+const transformSource = createRequire(import.meta.url)(
+  "./solid-react-loader.js"
+);
+
+const regScript = /\.(t|j)sx?$/;
+const regTypeScript = /\.tsx?$/;
+
+/**
+ * solid-react-loader 的 Vite 版本
+ *
+ * @param {object} [options]
+ * @param {string} [options.srcPath] 源码目录，默认为项目根目录下的 src
+ * @param {string[]} [options.include] 同样需要转换的 node_modules 包名
+ */
+export default function solidReactPlugin(options = {}) {
+  const include = options.include ?? [];
+  let srcPath = options.srcPath;
+  let patchPath = "";
+
+  function shouldTransform(id) {
+    if (!regScript.test(id)) {
+      return false;
+    }
+    if (!id.includes("/node_modules/")) {
+      return true;
+    }
+    return include.some((name) => id.includes(`/node_modules/${name}/`));
+  }
+
+  return {
+    name: "solid-react",
+    // 必须在 vite-plugin-solid 之前执行，与 webpack 中 loader 的顺序一致
+    enforce: "pre",
+    config(config) {
+      srcPath = srcPath ?? path.resolve(config.root ?? process.cwd(), "src");
+      return {
+        resolve: {
+          alias: [
+            {
+              find: /^react-dom(?=\/|$)/,
+              replacement: path.join(srcPath, "solid-react-dom-adapter"),
+            },
+            {
+              find: /^react(?=\/|$)/,
+              replacement: path.join(srcPath, "solid-react-adapter"),
+            },
+          ],
+        },
+        optimizeDeps: {
+          // 预构建的依赖不会经过 transform，需要转换的包不能预构建
+          exclude: include,
+        },
+      };
+    },
+    configResolved(config) {
+      patchPath = `/${path
+        .relative(config.root, path.join(srcPath, "solid-react-adapter/patch"))
+        .split(path.sep)
+        .join("/")}`;
+    },
+    transformIndexHtml: {
+      // 必须在 Vite 处理 html 之前注入，打包时这段脚本才会和入口脚本一起被打包
+      order: "pre",
+      handler() {
+        // 在入口脚本之前自动调用 enablePatch，注入全局的 __wrapSolidComp__
+        return [
+          {
+            tag: "script",
+            attrs: { type: "module" },
+            children: `import { enablePatch } from "${patchPath}";\nenablePatch();`,
+            injectTo: "head-prepend",
+          },
+        ];
+      },
+    },
+    transform(code, id) {
+      const file = id.replace(/\?.*$/, "");
+      if (!shouldTransform(file)) {
+        return null;
+      }
+      if (regTypeScript.test(file)) {
+        // 与 webpack 中的 ts-loader 一样，先去掉类型再交给 loader，JSX 原样保留
+        code = ts.transpileModule(code, {
+          fileName: file,
+          compilerOptions: {
+            target: ts.ScriptTarget.ESNext,
+            module: ts.ModuleKind.ESNext,
+            jsx: ts.JsxEmit.Preserve,
+          },
+        }).outputText;
+      }
+      return {
+        code: transformSource(code),
+        map: null,
+      };
+    },
+  };
+}
@@ -1,12 +1,12 @@
 /// <reference types="antd" />
 
 import { CiOutlined } from "@ant-design/icons";
-import { render } from "solid-js/web";
+import { createRoot } from "react-dom/client";
 import { enablePatch } from "./solid-react-adapter/patch";
 
 enablePatch();
 
-render(() => {
+createRoot(document.getElementById("root")!).render(() => {
   return (
     <div
       style={{
@@ -17,4 +17,4 @@ render(() => {
       <CiOutlined />
     </div>
   );
-}, document.getElementById("root")!);
+});
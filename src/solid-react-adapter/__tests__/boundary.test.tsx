@@ -0,0 +1,38 @@
+import { expect, test, vi } from "vitest";
+import { createElement, ErrorBoundary, lazy, Suspense } from "..";
+import { mount, wait } from "./utils";
+
+test("ErrorBoundary 可以捕获 createElement 创建的子元素抛出的错误", async () => {
+  const onError = vi.fn();
+  function Boom(): never {
+    throw new Error("boom");
+  }
+  const container = mount(() =>
+    createElement(
+      ErrorBoundary,
+      { fallback: "出错了", onError },
+      createElement(Boom)
+    )
+  );
+  expect(container.textContent).toBe("出错了");
+
+  await wait();
+  expect(onError).toHaveBeenCalledTimes(1);
+  expect(onError.mock.calls[0][0].message).toBe("boom");
+});
+
+test("Suspense 中 createElement 创建的 lazy 组件加载完成后显示内容", async () => {
+  const Lazy = lazy(() =>
+    Promise.resolve({ default: () => <span>加载完成</span> })
+  );
+  const container = mount(() =>
+    createElement(Suspense, {
+      fallback: "加载中",
+      children: createElement(Lazy),
+    })
+  );
+  expect(container.textContent).toBe("加载中");
+
+  await wait();
+  expect(container.textContent).toBe("加载完成");
+});
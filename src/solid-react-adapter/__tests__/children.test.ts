@@ -0,0 +1,20 @@
+import { expect, test } from "vitest";
+import { Children, cloneElement, createElement } from "..";
+
+test("Children.only 接受元素描述对象与 DOM 节点", () => {
+  const element = createElement("span", null);
+  const node = document.createElement("span");
+  expect(Children.only(element)).toBe(element);
+  expect(Children.only(node)).toBe(node);
+  expect(() => Children.only([node, node])).toThrow();
+  expect(() => Children.only(null)).toThrow();
+  expect(() => Children.only("text")).toThrow();
+  expect(() => Children.only(1)).toThrow();
+});
+
+test("cloneElement 对 DOM 节点原样返回", () => {
+  const node = document.createElement("span");
+  expect(cloneElement(node as any, { title: "title" })).toBe(node);
+  expect(() => cloneElement(null as any)).toThrow();
+  expect(() => cloneElement("text" as any)).toThrow();
+});
@@ -0,0 +1,65 @@
+import { expect, test } from "vitest";
+import { createElement, PureComponent, useState } from "..";
+import { mount, wait } from "./utils";
+
+test("父组件传入的 state 变化时，类组件的生命周期拿到前后不同的 props", async () => {
+  const calls: string[] = [];
+  let setCount!: (count: number) => void;
+  class Child extends PureComponent<{ count: number }, { double: number }> {
+    state = { double: 0 };
+    static getDerivedStateFromProps(props: { count: number }) {
+      return { double: props.count * 2 };
+    }
+    shouldComponentUpdate(nextProps: { count: number }) {
+      calls.push(`should:${this.props.count}->${nextProps.count}`);
+      return true;
+    }
+    componentDidUpdate(prevProps: { count: number }) {
+      calls.push(`did:${prevProps.count}->${this.props.count}`);
+    }
+    render() {
+      const { double } = this.state;
+      return <i>{double}</i>;
+    }
+  }
+  function Parent() {
+    const [count, set] = useState(1);
+    setCount = set;
+    return createElement(Child, { count });
+  }
+  const container = mount(() => createElement(Parent as any));
+  await wait();
+  expect(container.textContent).toBe("2");
+
+  setCount(2);
+  await wait();
+  expect(container.textContent).toBe("4");
+  expect(calls).toEqual(["should:1->2", "did:1->2"]);
+});
+
+test("PureComponent 在父组件传入的 state 变化时重新 render", async () => {
+  let renderCount = 0;
+  let setLabel!: (label: string) => void;
+  class Label extends PureComponent<{ label: string }> {
+    render() {
+      renderCount++;
+      const { label } = this.props;
+      return <span>{label}</span>;
+    }
+  }
+  function Parent() {
+    const [label, set] = useState("a");
+    setLabel = set;
+    return createElement(Label, { label });
+  }
+  const container = mount(() => createElement(Parent as any));
+  await wait();
+  setLabel("b");
+  await wait();
+  expect(container.textContent).toBe("b");
+  expect(renderCount).toBe(2);
+
+  setLabel("b");
+  await wait();
+  expect(renderCount).toBe(2);
+});
@@ -0,0 +1,92 @@
+import { expect, test } from "vitest";
+import { Component, createElement, useEffect, useState } from "..";
+import { mount, wait } from "./utils";
+
+test("兄弟节点更新时，没有 key 的子元素不会被重新挂载", async () => {
+  let mountCount = 0;
+  let callbackCount = 0;
+  let increment!: () => void;
+  let setLabel!: (label: string) => void;
+  class Counter extends Component<{}, { count: number }> {
+    state = { count: 0 };
+    componentDidMount() {
+      mountCount++;
+    }
+    render() {
+      increment = () =>
+        this.setState(
+          ({ count }) => ({ count: count + 1 }),
+          () => callbackCount++
+        );
+      const { count } = this.state;
+      return <i>{count}</i>;
+    }
+  }
+  function Parent() {
+    const [label, set] = useState("a");
+    setLabel = set;
+    // 第三方库通过 createElement 创建的子元素，label 变化时 Solid 会重新处理整个 children 数组
+    return createElement("div", null, createElement(Counter), label);
+  }
+  const container = mount(() => createElement(Parent as any));
+  await wait();
+  increment();
+  await wait();
+  expect(container.textContent).toBe("1a");
+
+  setLabel("b");
+  await wait();
+  expect(container.textContent).toBe("1b");
+  expect(mountCount).toBe(1);
+
+  increment();
+  await wait();
+  expect(container.textContent).toBe("2b");
+  expect(callbackCount).toBe(2);
+});
+
+test("JSX 中 map 渲染的带 key 的列表项在更新时复用 DOM 与状态", async () => {
+  const mounts: number[] = [];
+  const unmounts: number[] = [];
+  let setItems!: (items: number[]) => void;
+  function Row(props: { id: number; key?: number }) {
+    const [count, setCount] = useState(0);
+    useEffect(() => {
+      mounts.push(props.id);
+      return () => {
+        unmounts.push(props.id);
+      };
+    }, []);
+    return (
+      <li onClick={() => setCount(count + 1)}>
+        {props.id}:{count}
+      </li>
+    );
+  }
+  function List() {
+    const [items, set] = useState([1, 2, 3]);
+    setItems = set;
+    return (
+      <ul>
+        {items.map((id) => (
+          <Row key={id} id={id} />
+        ))}
+      </ul>
+    );
+  }
+  const container = mount(() => <List />);
+  await wait();
+  const [li1, , li3] = Array.from(container.querySelectorAll("li"));
+  li3.click();
+  await wait();
+  expect(container.textContent).toBe("1:02:03:1");
+
+  setItems([3, 1]);
+  await wait();
+  const lis = Array.from(container.querySelectorAll("li"));
+  expect(lis[0]).toBe(li3);
+  expect(lis[1]).toBe(li1);
+  expect(container.textContent).toBe("3:11:0");
+  expect(mounts).toEqual([1, 2, 3]);
+  expect(unmounts).toEqual([2]);
+});
@@ -0,0 +1,111 @@
+import { afterEach, expect, test } from "vitest";
+import {
+  createElement,
+  disableStateDevtools,
+  enableStateDevtools,
+  StateActionRecord,
+  useReducer,
+  useState,
+} from "..";
+import { mount, runInRoot } from "./utils";
+
+afterEach(disableStateDevtools);
+
+const add = (count: number, step: number) => count + step;
+
+test("记录 dispatch 与 setState 的 action、前后的 state 及组件名", () => {
+  const devtools = enableStateDevtools();
+  const records: StateActionRecord[] = [];
+  devtools.subscribe((record) => records.push(record));
+  let dispatch!: (step: number) => void;
+  let setLabel!: (update: (label: string) => string) => void;
+  function Counter() {
+    const [count, dispatchStep] = useReducer(add, 0);
+    const [label, set] = useState("a");
+    dispatch = dispatchStep;
+    setLabel = set;
+    return createElement("i", null, label, count);
+  }
+  mount(() => createElement(Counter as any));
+  dispatch(2);
+  setLabel((label) => label + "b");
+
+  expect(devtools.getLog()).toMatchObject([
+    {
+      hook: "useReducer",
+      componentName: "Counter",
+      action: 2,
+      prevState: 0,
+      nextState: 2,
+    },
+    {
+      hook: "useState",
+      componentName: "Counter",
+      prevState: "a",
+      nextState: "ab",
+    },
+  ]);
+  expect(records).toEqual(devtools.getLog());
+});
+
+test("jumpToAction 恢复到指定记录之后的状态，actionId 为 0 时恢复到初始状态", () => {
+  const devtools = enableStateDevtools();
+  const [count, dispatch] = runInRoot(() => useReducer(add, 0));
+  dispatch(1);
+  dispatch(2);
+  dispatch(3);
+  const log = devtools.getLog();
+
+  devtools.jumpToAction(log[1].id);
+  expect(+count).toBe(3);
+  devtools.jumpToAction(0);
+  expect(+count).toBe(0);
+  devtools.send({ type: "JUMP_TO_ACTION", actionId: log[2].id });
+  expect(+count).toBe(6);
+  // 跳转不会产生新的记录
+  expect(devtools.getLog()).toEqual(log);
+});
+
+test("replay 以修改后的 reducer 重新执行所有记录", () => {
+  const devtools = enableStateDevtools();
+  let factor = 1;
+  const [count, dispatch] = runInRoot(() =>
+    useReducer((count: number, step: number) => count + step * factor, 0)
+  );
+  dispatch(1);
+  dispatch(2);
+  expect(+count).toBe(3);
+
+  factor = 10;
+  devtools.replay();
+  expect(+count).toBe(30);
+  expect(devtools.getLog().map(({ nextState }) => nextState)).toEqual([10, 30]);
+});
+
+test("reset 恢复到初始状态，commit 之后恢复到提交时的状态", () => {
+  const devtools = enableStateDevtools();
+  const [label, setLabel] = runInRoot(() => useState("a"));
+  setLabel("b");
+  devtools.reset();
+  expect(`${label}`).toBe("a");
+  expect(devtools.getLog()).toEqual([]);
+
+  setLabel("c");
+  devtools.commit();
+  expect(devtools.getLog()).toEqual([]);
+  setLabel("d");
+  devtools.send({ type: "RESET" });
+  expect(`${label}`).toBe("c");
+});
+
+test("超出 maxAge 的记录被提交为初始状态", () => {
+  const devtools = enableStateDevtools({ maxAge: 2 });
+  const [count, dispatch] = runInRoot(() => useReducer(add, 0));
+  dispatch(1);
+  dispatch(2);
+  dispatch(3);
+  expect(devtools.getLog().map(({ prevState }) => prevState)).toEqual([1, 3]);
+
+  devtools.jumpToAction(0);
+  expect(+count).toBe(1);
+});
@@ -0,0 +1,37 @@
+import { createElement as createJsxElement } from "react";
+import { createSignal } from "solid-js";
+import { expect, test } from "vitest";
+import { createElement } from "..";
+import { mount } from "./utils";
+
+test("createElement 创建的原生标签上，驼峰命名的布尔属性按 React 的语义设置", () => {
+  const container = mount(() =>
+    createElement("video", {
+      autoPlay: false,
+      playsInline: true,
+      controls: true,
+    })
+  );
+  const video = container.querySelector("video")!;
+  expect(video.hasAttribute("autoplay")).toBe(false);
+  expect(video.getAttribute("playsinline")).toBe("");
+  expect(video.controls).toBe(true);
+});
+
+test("JSX 原生标签上的布尔属性随表达式更新", () => {
+  const [focused, setFocused] = createSignal(true);
+  // 从 react 引入的 createElement 会被 loader 转换为 JSX
+  const container = mount(() =>
+    createJsxElement("iframe", {
+      allowFullScreen: focused(),
+      autoFocus: focused(),
+    })
+  );
+  const iframe = container.querySelector("iframe")!;
+  expect(iframe.getAttribute("allowfullscreen")).toBe("");
+  expect(iframe.getAttribute("autofocus")).toBe("");
+
+  setFocused(false);
+  expect(iframe.hasAttribute("allowfullscreen")).toBe(false);
+  expect(iframe.hasAttribute("autofocus")).toBe(false);
+});
@@ -0,0 +1,57 @@
+import { createElement, useState } from "react";
+import { createSignal } from "solid-js";
+import { expect, test, vi } from "vitest";
+import { mount, wait } from "./utils";
+
+test("JSX 原生标签上的 onChange 在输入时触发", () => {
+  const onChange = vi.fn();
+  const container = mount(() => <input onChange={onChange} />);
+  const input = container.querySelector("input")!;
+  input.value = "a";
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+  expect(onChange).toHaveBeenCalledTimes(1);
+});
+
+test("createElement 创建的原生标签上的 onDoubleClick 在双击时触发", () => {
+  const onDoubleClick = vi.fn();
+  // 从 react 引入的 createElement 会被 loader 转换为 JSX
+  const container = mount(() => createElement("div", { onDoubleClick }));
+  container
+    .querySelector("div")!
+    .dispatchEvent(new MouseEvent("dblclick", { bubbles: true }));
+  expect(onDoubleClick).toHaveBeenCalledTimes(1);
+});
+
+test("带事件的原生标签中，Solid 风格的动态子节点保持响应", () => {
+  const [count, setCount] = createSignal(0);
+  const container = mount(() => (
+    <button onClick={() => setCount(count() + 1)}>{count()}</button>
+  ));
+  const button = container.querySelector("button")!;
+  button.click();
+  expect(button.textContent).toBe("1");
+});
+
+test("带事件的原生标签中，React 风格的动态子节点保持响应", async () => {
+  function Counter() {
+    const [n, setN] = useState(0);
+    return <button onClick={() => setN(n + 1)}>{n + 1}</button>;
+  }
+  const container = mount(() => <Counter />);
+  const button = container.querySelector("button")!;
+  expect(button.textContent).toBe("1");
+
+  button.click();
+  await wait();
+  expect(button.textContent).toBe("2");
+});
+
+test("带事件的原生标签中的文本原样渲染", () => {
+  const onClick = vi.fn();
+  const container = mount(() => <button onClick={onClick}>Click me!</button>);
+  const button = container.querySelector("button")!;
+  expect(button.textContent).toBe("Click me!");
+
+  button.click();
+  expect(onClick).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,30 @@
+import { Provider, useDispatch, useSelector } from "react-redux";
+import { createStore } from "redux";
+import { expect, test } from "vitest";
+import { createElement } from "..";
+import { mount, wait } from "./utils";
+
+test("Provider 中的 useSelector、useDispatch 可以读取并更新 store", async () => {
+  const store = createStore(
+    (state: { count: number } = { count: 0 }, action: { type: string }) =>
+      action.type === "increment" ? { count: state.count + 1 } : state
+  );
+  function Counter() {
+    const count = useSelector((state: { count: number }) => state.count);
+    const dispatch = useDispatch();
+    return (
+      <button onClick={() => dispatch({ type: "increment" })}>{count}</button>
+    );
+  }
+  // 通过 createElement 创建的子元素是惰性的，在 Provider 提供 context 之后才会渲染
+  const container = mount(() =>
+    createElement(Provider, { store, children: createElement(Counter) })
+  );
+  const button = container.querySelector("button")!;
+  expect(button.textContent).toBe("0");
+
+  button.click();
+  await wait();
+  expect(store.getState().count).toBe(1);
+  expect(button.textContent).toBe("1");
+});
@@ -0,0 +1,33 @@
+import { expect, test, vi } from "vitest";
+import {
+  EffectInstance,
+  flushPassiveEffects,
+  flushSyncEffects,
+  scheduleEffect,
+} from "../scheduler";
+
+test("effect 抛出错误时，同一阶段的其余 effect 依旧执行", () => {
+  const job = vi.fn();
+  scheduleEffect("passive", {}, () => {
+    throw new Error("boom");
+  });
+  scheduleEffect("passive", {}, job);
+  expect(() => flushPassiveEffects()).toThrow("boom");
+  expect(job).toHaveBeenCalledTimes(1);
+});
+
+test("清理函数抛出错误时，其余的清理函数与 effect 依旧执行", () => {
+  const cleanup = vi.fn();
+  const job = vi.fn();
+  const first: EffectInstance = {
+    cleanup: () => {
+      throw new Error("boom");
+    },
+  };
+  const second: EffectInstance = { cleanup };
+  scheduleEffect("layout", first, null);
+  scheduleEffect("layout", second, job);
+  expect(() => flushSyncEffects()).toThrow("boom");
+  expect(cleanup).toHaveBeenCalledTimes(1);
+  expect(job).toHaveBeenCalledTimes(1);
+});
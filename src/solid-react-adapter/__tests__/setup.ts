@@ -0,0 +1,7 @@
+import { afterEach } from "vitest";
+import { enablePatch } from "../patch";
+import { cleanup } from "./utils";
+
+enablePatch();
+
+afterEach(cleanup);
@@ -0,0 +1,154 @@
+// 引入了 react 的模块中，loader 才会处理 !、??、=== null 等运算
+import { useState } from "react";
+import { expect, test } from "vitest";
+import { createElement, Dispatch, SetStateAction, useEffect } from "..";
+import { mount, runInRoot, wait } from "./utils";
+
+function createState<S>(initialState: S) {
+  return runInRoot(() => useState(initialState)) as [
+    S,
+    Dispatch<SetStateAction<S>>,
+  ];
+}
+
+test("原始值", () => {
+  const [count, setCount] = createState(1);
+  expect(count + 1).toBe(2);
+  expect(`${count}`).toBe("1");
+  expect(JSON.stringify({ count })).toBe('{"count":1}');
+
+  setCount(2);
+  expect(count * 2).toBe(4);
+});
+
+test("null 与 undefined", () => {
+  const [user, setUser] = createState<{ name: string } | null>(null);
+  expect(!user).toBe(true);
+  expect(user === null).toBe(true);
+  expect(user ?? "guest").toBe("guest");
+  expect(typeof user).toBe("object");
+
+  setUser({ name: "a" });
+  expect(!user).toBe(false);
+  expect(user === null).toBe(false);
+  expect(user?.name).toBe("a");
+
+  const [value, setValue] = createState<number | undefined>(undefined);
+  expect(value == null).toBe(true);
+  expect(value ?? 1).toBe(1);
+  expect(typeof value).toBe("undefined");
+
+  setValue(0);
+  expect(value ?? 1).toBe(0);
+  expect(value === 0).toBe(true);
+  expect(typeof value).toBe("number");
+});
+
+test("对象", () => {
+  const [user, setUser] = createState({ name: "a", age: 1 });
+  expect(user.name).toBe("a");
+  expect("age" in user).toBe(true);
+  expect(Object.keys(user)).toEqual(["name", "age"]);
+  expect({ ...user }).toEqual({ name: "a", age: 1 });
+  expect(JSON.stringify(user)).toBe('{"name":"a","age":1}');
+
+  setUser({ name: "b", age: 2 });
+  expect(user.name).toBe("b");
+  expect({ ...user }).toEqual({ name: "b", age: 2 });
+});
+
+test("数组", () => {
+  const [list, setList] = createState([1, 2]);
+  expect(Array.isArray(list)).toBe(true);
+  expect(list.length).toBe(2);
+  expect(list[0]).toBe(1);
+  expect([...list]).toEqual([1, 2]);
+  expect(list.map((item) => item * 2)).toEqual([2, 4]);
+  expect(Object.keys(list)).toEqual(["0", "1"]);
+  expect(JSON.stringify(list)).toBe("[1,2]");
+
+  setList([3, 4, 5]);
+  expect(Array.isArray(list)).toBe(true);
+  expect(list.length).toBe(3);
+  expect([...list]).toEqual([3, 4, 5]);
+  expect(list.indexOf(5)).toBe(2);
+});
+
+test("Map", () => {
+  const [map, setMap] = createState(new Map([["a", 1]]));
+  expect(map instanceof Map).toBe(true);
+  expect(map.get("a")).toBe(1);
+  expect(map.size).toBe(1);
+  expect([...map]).toEqual([["a", 1]]);
+
+  setMap(new Map([...map, ["b", 2]]));
+  expect(map.get("b")).toBe(2);
+  expect(map.size).toBe(2);
+});
+
+test("Set", () => {
+  const [set, setSet] = createState(new Set([1]));
+  expect(set instanceof Set).toBe(true);
+  expect(set.has(1)).toBe(true);
+  expect(set.size).toBe(1);
+
+  setSet(new Set([...set, 2]));
+  expect(set.has(2)).toBe(true);
+  expect([...set]).toEqual([1, 2]);
+});
+
+test("数组 state 插入 JSX 与作为 deps 时保持响应", async () => {
+  let setList!: Dispatch<SetStateAction<string[]>>;
+  const effectRuns: number[] = [];
+  function List() {
+    const [list, set] = useState(["a"]);
+    setList = set;
+    useEffect(() => {
+      effectRuns.push(list.length);
+    }, [list]);
+    return <p>{list}</p>;
+  }
+  const container = mount(() => <List />);
+  await wait();
+  expect(container.textContent).toBe("a");
+  expect(effectRuns).toEqual([1]);
+
+  setList(["a", "b"]);
+  await wait();
+  expect(container.textContent).toBe("ab");
+  expect(effectRuns).toEqual([1, 2]);
+});
+
+test("数组 state 作为 createElement 的 children 时保持响应", async () => {
+  let setList!: Dispatch<SetStateAction<string[]>>;
+  function List() {
+    const [list, set] = useState(["a"]);
+    setList = set;
+    return createElement("p", null, list);
+  }
+  const container = mount(() => createElement(List as any));
+  expect(container.textContent).toBe("a");
+
+  setList(["a", "b"]);
+  await wait();
+  expect(container.textContent).toBe("ab");
+});
+
+test("可能为 null 的 state 在 JSX 中的条件判断保持响应", async () => {
+  let setUser!: Dispatch<SetStateAction<{ name: string } | null>>;
+  function Profile() {
+    const [user, set] = useState<{ name: string } | null>(null);
+    setUser = set;
+    return <p>{user ? user.name : "guest"}</p>;
+  }
+  const container = mount(() => <Profile />);
+  expect(container.textContent).toBe("guest");
+
+  setUser({ name: "a" });
+  await wait();
+  expect(container.textContent).toBe("a");
+
+  setUser(null);
+  await wait();
+  expect(container.textContent).toBe("guest");
+});
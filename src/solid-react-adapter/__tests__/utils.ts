@@ -0,0 +1,34 @@
+import { createRoot } from "solid-js";
+import { render } from "solid-js/web";
+
+const disposers: (() => void)[] = [];
+
+/**
+ * 渲染到 document.body 下新建的容器中，测试结束后由 cleanup 统一销毁
+ */
+export function mount(element: () => unknown): HTMLElement {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  disposers.push(render(element as any, container));
+  return container;
+}
+
+/**
+ * 在独立的 root 中执行，用于在组件之外调用 hooks，测试结束后由 cleanup 统一销毁
+ */
+export function runInRoot<T>(fn: () => T): T {
+  return createRoot((dispose) => {
+    disposers.push(dispose);
+    return fn();
+  });
+}
+
+/**
+ * 等待适配层的 signal 提交与 effect 执行完成
+ */
+export const wait = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export function cleanup() {
+  disposers.splice(0).forEach((dispose) => dispose());
+  document.body.innerHTML = "";
+}
@@ -0,0 +1,483 @@
+import {
+  children as resolveChildren,
+  Context,
+  createComputed,
+  createEffect,
+  createMemo,
+  createSignal as _createSignal,
+  onCleanup,
+  onMount,
+  ErrorBoundary as SolidErrorBoundary,
+  untrack,
+} from "solid-js";
+import type { JSX } from "solid-js/jsx-runtime";
+import { useContext } from "./hooks";
+import {
+  createSignal,
+  getComponentStack,
+  getDisplayName,
+  microDelay,
+  readReactiveValue,
+  shallowEqual,
+} from "./patch";
+
+type StateUpdater<P, S> = (
+  prevState: Readonly<S>,
+  props: Readonly<P>
+) => Partial<S> | S | null;
+
+type StateUpdate<P, S> = StateUpdater<P, S> | Partial<S> | S | null;
+
+function resolveStateUpdate<P, S>(
+  instance: Component<P, S>,
+  partialState: StateUpdate<P, S>,
+  state: S,
+  props: P
+): Partial<S> | S | null {
+  return typeof partialState === "function"
+    ? (partialState as StateUpdater<P, S>).call(instance, state, props)
+    : partialState;
+}
+
+interface ComponentUpdater {
+  enqueueSetState(
+    partialState: StateUpdate<any, any>,
+    callback?: () => void
+  ): void;
+  enqueueForceUpdate(callback?: () => void): void;
+}
+
+const componentUpdater = Symbol("component updater");
+
+export interface ErrorInfo {
+  /**
+   * Captures which component contained the exception, and its ancestors.
+   */
+  componentStack?: string | null;
+  digest?: string | null;
+}
+
+export interface ComponentLifecycle<P, S, SS = any> {
+  /**
+   * Called immediately after a component is mounted. Setting state here will trigger re-rendering.
+   */
+  componentDidMount?(): void;
+  /**
+   * Called to determine whether the change in props and state should trigger a re-render.
+   *
+   * `Component` always returns true.
+   * `PureComponent` implements a shallow comparison on props and state and returns true if any
+   * props or states have changed.
+   *
+   * If false is returned, {@link Component.render}, `componentDidUpdate`
+   * will not be called.
+   */
+  shouldComponentUpdate?(
+    nextProps: Readonly<P>,
+    nextState: Readonly<S>,
+    nextContext: any
+  ): boolean;
+  /**
+   * Called immediately before a component is destroyed. Perform any necessary cleanup in this method, such as
+   * cancelled network requests, or cleaning up any DOM elements created in `componentDidMount`.
+   */
+  componentWillUnmount?(): void;
+  /**
+   * Runs before React applies the result of {@link Component.render render} to the document, and
+   * returns an object to be given to {@link componentDidUpdate}. Useful for saving
+   * things such as scroll position before {@link Component.render render} causes changes to it.
+   *
+   * Note: the presence of this method prevents any of the deprecated
+   * lifecycle events from running.
+   */
+  getSnapshotBeforeUpdate?(
+    prevProps: Readonly<P>,
+    prevState: Readonly<S>
+  ): SS | null;
+  /**
+   * Called immediately after updating occurs. Not called for the initial render.
+   *
+   * The snapshot is only present if {@link getSnapshotBeforeUpdate} is present and returns non-null.
+   */
+  componentDidUpdate?(
+    prevProps: Readonly<P>,
+    prevState: Readonly<S>,
+    snapshot?: SS
+  ): void;
+  /**
+   * Catches exceptions generated in descendant components. Unhandled exceptions will cause
+   * the entire component tree to unmount.
+   */
+  componentDidCatch?(error: Error, errorInfo: ErrorInfo): void;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface Component<P = {}, S = {}, SS = any> extends ComponentLifecycle<
+  P,
+  S,
+  SS
+> {}
+export class Component<P = {}, S = {}, SS = any> {
+  /**
+   * If set, `this.context` will be set at runtime to the current value of the given Context.
+   *
+   * @see {@link https://react.dev/reference/react/Component#static-contexttype}
+   */
+  static contextType?: Context<any> | undefined;
+
+  /**
+   * Ignored by React.
+   * @deprecated Only kept in types for backwards compatibility. Will be removed in a future major release.
+   */
+  static propTypes?: any;
+
+  declare readonly isReactComponent: object;
+
+  /**
+   * If using React Context, re-declare this in your class to be the
+   * `React.ContextType` of your `static contextType`.
+   * Should be used with type annotation or static contextType.
+   */
+  context: unknown;
+
+  props: Readonly<P>;
+  state: Readonly<S>;
+
+  declare [componentUpdater]?: ComponentUpdater;
+
+  constructor(props: P, context?: unknown) {
+    this.props = props;
+    this.context = context;
+  }
+
+  // We MUST keep setState() as a unified signature because it allows proper checking of the method return type.
+  // See: https://github.com/DefinitelyTyped/DefinitelyTyped/issues/18365#issuecomment-351013257
+  setState<K extends keyof S>(
+    state:
+      | ((prevState: Readonly<S>, props: Readonly<P>) => Pick<S, K> | S | null)
+      | (Pick<S, K> | S | null),
+    callback?: () => void
+  ): void {
+    const updater = this[componentUpdater];
+    if (updater) {
+      updater.enqueueSetState(state, callback);
+    } else {
+      // 还未挂载（例如在 constructor 中调用），直接合并到 state 上
+      const partialState = resolveStateUpdate<P, S>(
+        this,
+        state as StateUpdate<P, S>,
+        this.state,
+        this.props
+      );
+      if (partialState != null) {
+        this.state = { ...this.state, ...partialState };
+      }
+    }
+  }
+
+  forceUpdate(callback?: () => void): void {
+    const updater = this[componentUpdater];
+    if (updater) {
+      updater.enqueueForceUpdate(callback);
+    }
+  }
+
+  render(): JSX.Element {
+    return null;
+  }
+}
+Object.defineProperty(Component.prototype, "isReactComponent", {
+  configurable: true,
+  enumerable: false,
+  writable: false,
+  value: {},
+});
+
+export interface PureComponent<P = {}, S = {}, SS = any> extends Component<
+  P,
+  S,
+  SS
+> {}
+export class PureComponent<P = {}, S = {}, SS = any> extends Component<
+  P,
+  S,
+  SS
+> {
+  declare readonly isPureReactComponent: boolean;
+}
+Object.defineProperty(PureComponent.prototype, "isPureReactComponent", {
+  configurable: true,
+  enumerable: false,
+  writable: false,
+  value: true,
+});
+
+/**
+ * Represents a component class in React.
+ *
+ * @template P The props the component accepts.
+ * @template S The internal state of the component.
+ */
+export interface ComponentClass<P = {}, S = any> {
+  new (props: P, context?: any): Component<P, S>;
+  contextType?: Context<any> | undefined;
+  defaultProps?: Partial<P> | undefined;
+  displayName?: string | undefined;
+  getDerivedStateFromProps?(
+    nextProps: Readonly<P>,
+    prevState: S
+  ): Partial<S> | null;
+  /**
+   * This lifecycle is invoked after an error has been thrown by a descendant component.
+   * It receives the error that was thrown as a parameter and should return a value to update state.
+   */
+  getDerivedStateFromError?(error: any): Partial<S> | null;
+}
+
+export function isClassComponent(tag: any): tag is ComponentClass<any> {
+  return (
+    typeof tag === "function" &&
+    !!tag.prototype &&
+    !!tag.prototype.isReactComponent
+  );
+}
+
+function isErrorBoundary(Ctor: ComponentClass<any>): boolean {
+  return !!Ctor.getDerivedStateFromError || !!Ctor.prototype.componentDidCatch;
+}
+
+/**
+ * 读取 props 的快照，同时收集 props 的依赖，并补全 defaultProps
+ */
+function readProps<P>(Ctor: ComponentClass<P>, props: P): P {
+  const result = {} as Record<string, unknown>;
+  Object.keys(props as object).forEach((key) => {
+    if (key === "children") {
+      // children 延迟到 render 时才创建，这样子组件抛出的错误才能被错误边界捕获
+      Object.defineProperty(result, key, {
+        configurable: true,
+        enumerable: true,
+        get: () => (props as Record<string, unknown>)[key],
+      });
+    } else {
+      // useState 等返回的 Proxy 本身的引用永远不会变化，读取解析后的值，
+      // componentDidUpdate、shouldComponentUpdate 等拿到的才是前后不同的 props
+      result[key] = readReactiveValue((props as Record<string, unknown>)[key]);
+    }
+  });
+  const defaultProps = Ctor.defaultProps as Record<string, unknown> | undefined;
+  if (defaultProps) {
+    Object.keys(defaultProps).forEach((key) => {
+      if (result[key] === undefined) {
+        result[key] = defaultProps[key];
+      }
+    });
+  }
+  return result as P;
+}
+
+/**
+ * children 每次读取都会重新创建，而它本身的变化由 Solid 负责响应，比较时跳过
+ */
+function shallowEqualProps(a: any, b: any): boolean {
+  const { children: _a, ...restA } = a;
+  const { children: _b, ...restB } = b;
+  return shallowEqual(restA, restB);
+}
+
+function applyDerivedState<P, S>(
+  Ctor: ComponentClass<P, S>,
+  props: P,
+  state: S
+): S {
+  if (Ctor.getDerivedStateFromProps) {
+    const partialState = Ctor.getDerivedStateFromProps(props, state);
+    if (partialState != null) {
+      return { ...state, ...partialState };
+    }
+  }
+  return state;
+}
+
+/**
+ * 在当前 Solid owner 下实例化并挂载一个类组件
+ */
+export function mountClassComponent<P, S>(
+  Ctor: ComponentClass<P, S>,
+  props: P
+): JSX.Element {
+  let instance: Component<P, S>;
+  let forced = false;
+  const stateQueue: StateUpdate<P, S>[] = [];
+  let updateCallbacks: (() => void)[] = [];
+  // 等待 DOM 更新完成后执行的 componentDidUpdate 及 setState 回调
+  const pendingCommits: (() => void)[] = [];
+
+  // setState、forceUpdate 通过适配层的 signal 触发，与 useState 一样批量提交
+  const [updateSignal, setUpdateSignal] = createSignal(0);
+  const [renderSignal, setRenderSignal] = _createSignal(0);
+
+  const updater: ComponentUpdater = {
+    enqueueSetState(partialState, callback) {
+      stateQueue.push(partialState);
+      if (callback) {
+        updateCallbacks.push(callback);
+      }
+      setUpdateSignal((value) => value + 1);
+    },
+    enqueueForceUpdate(callback) {
+      forced = true;
+      if (callback) {
+        updateCallbacks.push(callback);
+      }
+      setUpdateSignal((value) => value + 1);
+    },
+  };
+
+  function construct(nextProps: P) {
+    const context = Ctor.contextType ? useContext(Ctor.contextType) : undefined;
+    instance = new Ctor(nextProps, context);
+    instance.props = nextProps;
+    instance.context = context;
+    instance.state = applyDerivedState(Ctor, nextProps, instance.state);
+    Object.defineProperty(instance, componentUpdater, {
+      configurable: true,
+      enumerable: false,
+      writable: false,
+      value: updater,
+    });
+  }
+
+  function update(nextProps: P) {
+    const prevProps = instance.props;
+    const prevState = instance.state;
+    let nextState = prevState;
+    stateQueue.splice(0).forEach((partialState) => {
+      const value = resolveStateUpdate(
+        instance,
+        partialState,
+        nextState,
+        nextProps
+      );
+      if (value != null) {
+        nextState = { ...nextState, ...value };
+      }
+    });
+    nextState = applyDerivedState(Ctor, nextProps, nextState);
+    const isForced = forced;
+    forced = false;
+    const callbacks = updateCallbacks;
+    updateCallbacks = [];
+
+    let shouldUpdate = true;
+    if (!isForced) {
+      if (instance.shouldComponentUpdate) {
+        shouldUpdate = instance.shouldComponentUpdate(
+          nextProps,
+          nextState,
+          instance.context
+        );
+      } else if ((instance as PureComponent<P, S>).isPureReactComponent) {
+        shouldUpdate =
+          !shallowEqualProps(prevProps, nextProps) ||
+          !shallowEqual(prevState, nextState);
+      }
+    }
+    instance.props = nextProps;
+    instance.state = nextState;
+
+    if (!shouldUpdate) {
+      // 跳过渲染时 setState 的回调依旧要执行
+      microDelay.then(() => {
+        callbacks.forEach((callback) => callback.call(instance));
+      });
+      return;
+    }
+    const snapshot = instance.getSnapshotBeforeUpdate
+      ? instance.getSnapshotBeforeUpdate(prevProps, prevState)
+      : undefined;
+    pendingCommits.push(() => {
+      if (instance.componentDidUpdate) {
+        instance.componentDidUpdate(prevProps, prevState, snapshot);
+      }
+      callbacks.forEach((callback) => callback.call(instance));
+    });
+    setRenderSignal((value) => value + 1);
+  }
+
+  // props 或 state 变化时，先计算出新的 props、state，再决定是否需要重新 render
+  createComputed(() => {
+    updateSignal();
+    const nextProps = readProps(Ctor, props);
+    untrack(() => {
+      if (instance) {
+        update(nextProps);
+      } else {
+        construct(nextProps);
+      }
+    });
+  });
+
+  /**
+   * 错误边界基于 Solid 的 ErrorBoundary 实现：出错后先用 getDerivedStateFromError 更新 state，
+   * 再以出错后的 state 重新 render；之后任何一次重新 render 都会创建新的 ErrorBoundary，即重置错误状态
+   */
+  function renderBoundary() {
+    return SolidErrorBoundary({
+      get children() {
+        // render 返回的可能是惰性的元素描述对象，需要在边界内创建，子组件抛出的错误才能被捕获
+        return resolveChildren(() =>
+          instance.render()
+        ) as unknown as JSX.Element;
+      },
+      fallback: (error: any) => {
+        const info: ErrorInfo = {
+          componentStack:
+            getComponentStack(error) ?? `\n    in ${getDisplayName(Ctor)}`,
+        };
+        if (Ctor.getDerivedStateFromError) {
+          const partialState = Ctor.getDerivedStateFromError(error);
+          if (partialState != null) {
+            instance.state = { ...instance.state, ...partialState };
+          }
+        }
+        onMount(() => {
+          if (instance.componentDidCatch) {
+            instance.componentDidCatch(error, info);
+          }
+        });
+        return instance.render();
+      },
+    });
+  }
+
+  // 每次重新 render 时，上一次 render 创建的计算会被自动销毁
+  const rendered = createMemo(() => {
+    renderSignal();
+    return untrack(() =>
+      isErrorBoundary(Ctor) ? renderBoundary() : instance.render()
+    );
+  });
+
+  onMount(() => {
+    if (instance.componentDidMount) {
+      instance.componentDidMount();
+    }
+  });
+
+  // effect 在 DOM 更新之后执行，此时调用 componentDidUpdate
+  createEffect(() => {
+    rendered();
+    untrack(() => {
+      pendingCommits.splice(0).forEach((commit) => commit());
+    });
+  });
+
+  onCleanup(() => {
+    if (instance.componentWillUnmount) {
+      instance.componentWillUnmount();
+    }
+  });
+
+  return rendered as unknown as JSX.Element;
+}
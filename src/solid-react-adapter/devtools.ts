@@ -0,0 +1,242 @@
+import { batch, onCleanup } from "solid-js";
+import { flushPendingSignals, getRenderingComponentName } from "./patch";
+
+export type StateHookKind = "useState" | "useReducer";
+
+/**
+ * 一次 setState 或 dispatch 的记录
+ */
+export interface StateActionRecord {
+  /**
+   * 自增的 id，从 1 开始，含义与 Redux DevTools 中的 actionId 一致
+   */
+  id: number;
+  hook: StateHookKind;
+  componentName: string;
+  /**
+   * dispatch 的 action，或 setState 的参数（新的值或更新函数）
+   */
+  action: unknown;
+  prevState: unknown;
+  nextState: unknown;
+  timestamp: number;
+}
+
+export interface StateDevtoolsOptions {
+  /**
+   * 最多保留的记录条数，超出后最早的记录会被提交为初始状态，默认 50
+   */
+  maxAge?: number;
+}
+
+/**
+ * 与 Redux DevTools 协议中 DISPATCH 消息的 payload 对应
+ */
+export type StateDevtoolsMessage =
+  | { type: "JUMP_TO_STATE"; actionId: number }
+  | { type: "JUMP_TO_ACTION"; actionId: number }
+  | { type: "RESET" }
+  | { type: "COMMIT" };
+
+export interface StateDevtools {
+  /**
+   * 获取当前的记录，按时间顺序排列
+   */
+  getLog(): StateActionRecord[];
+  /**
+   * 每产生一条新记录时通知，返回取消订阅的函数
+   */
+  subscribe(listener: (record: StateActionRecord) => void): () => void;
+  /**
+   * 将所有 state 恢复到指定记录执行之后的状态，actionId 为 0 时恢复到初始状态
+   */
+  jumpToAction(actionId: number): void;
+  /**
+   * 从初始状态开始重新执行所有记录，reducer 被修改（如热更新）后可以据此得到新的状态
+   */
+  replay(): void;
+  /**
+   * 恢复到初始状态并清空记录，调用过 commit 时恢复到提交时的状态
+   */
+  reset(): void;
+  /**
+   * 将当前状态作为新的初始状态并清空记录
+   */
+  commit(): void;
+  /**
+   * 处理 Redux DevTools 风格的消息
+   */
+  send(message: StateDevtoolsMessage): void;
+}
+
+interface HookEntry {
+  hook: StateHookKind;
+  componentName: string;
+  initialState: unknown;
+  currentState: unknown;
+  setState(state: unknown): void;
+  reduce(prevState: unknown, args: unknown[]): unknown;
+}
+
+interface ActionEntry {
+  hook: HookEntry;
+  args: unknown[];
+  record: StateActionRecord;
+}
+
+let devtools: StateDevtools | undefined;
+let maxAge = 50;
+let nextActionId = 1;
+const hooks: Set<HookEntry> = new Set();
+let actions: ActionEntry[] = [];
+const listeners: Set<(record: StateActionRecord) => void> = new Set();
+
+// 批量设置 state，只通知还未销毁的 hook
+function applyStates(states: Map<HookEntry, unknown>) {
+  batch(() => {
+    states.forEach((state, hook) => {
+      if (hooks.has(hook)) {
+        hook.currentState = state;
+        hook.setState(state);
+      }
+    });
+  });
+  flushPendingSignals();
+}
+
+function getInitialStates() {
+  const states: Map<HookEntry, unknown> = new Map();
+  hooks.forEach((hook) => states.set(hook, hook.initialState));
+  actions.forEach(({ hook }) => states.set(hook, hook.initialState));
+  return states;
+}
+
+function jumpToAction(actionId: number) {
+  const states = getInitialStates();
+  actions.forEach(({ hook, record }) => {
+    if (record.id <= actionId) {
+      states.set(hook, record.nextState);
+    }
+  });
+  applyStates(states);
+}
+
+function replay() {
+  const states = getInitialStates();
+  actions = actions.map(({ hook, args, record }) => {
+    const prevState = states.get(hook);
+    const nextState = hook.reduce(prevState, args);
+    states.set(hook, nextState);
+    return { hook, args, record: { ...record, prevState, nextState } };
+  });
+  applyStates(states);
+}
+
+function reset() {
+  const states = getInitialStates();
+  actions = [];
+  applyStates(states);
+}
+
+function commit() {
+  hooks.forEach((hook) => {
+    hook.initialState = hook.currentState;
+  });
+  actions = [];
+}
+
+/**
+ * 开启 useState、useReducer 的调试记录，只对开启之后创建的 hook 生效
+ */
+export function enableStateDevtools(
+  options: StateDevtoolsOptions = {}
+): StateDevtools {
+  maxAge = options.maxAge ?? 50;
+  if (!devtools) {
+    devtools = {
+      getLog: () => actions.map(({ record }) => record),
+      subscribe(listener) {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      jumpToAction,
+      replay,
+      reset,
+      commit,
+      send(message) {
+        switch (message.type) {
+          case "JUMP_TO_STATE":
+          case "JUMP_TO_ACTION":
+            jumpToAction(message.actionId);
+            break;
+          case "RESET":
+            reset();
+            break;
+          case "COMMIT":
+            commit();
+            break;
+        }
+      },
+    };
+  }
+  return devtools;
+}
+
+/**
+ * 关闭调试记录并清空已有的记录
+ */
+export function disableStateDevtools() {
+  devtools = undefined;
+  hooks.clear();
+  actions = [];
+  listeners.clear();
+}
+
+/**
+ * 供 useState、useReducer 调用：开启调试时登记当前 hook，返回记录函数，否则返回 undefined。
+ * setState 用于跳转时直接设置 state，不会产生新的记录；reduce 用于重新执行记录
+ */
+export function connectStateHook<S>(
+  hook: StateHookKind,
+  initialState: S,
+  setState: (state: S) => void,
+  reduce: (prevState: S, args: unknown[]) => S
+): ((args: unknown[], prevState: S, nextState: S) => void) | undefined {
+  if (!devtools) {
+    return undefined;
+  }
+  const entry: HookEntry = {
+    hook,
+    componentName: getRenderingComponentName() ?? "Anonymous",
+    initialState,
+    currentState: initialState,
+    setState: setState as (state: unknown) => void,
+    reduce: reduce as (prevState: unknown, args: unknown[]) => unknown,
+  };
+  hooks.add(entry);
+  onCleanup(() => hooks.delete(entry));
+  return (args, prevState, nextState) => {
+    if (!hooks.has(entry)) {
+      return;
+    }
+    entry.currentState = nextState;
+    const record: StateActionRecord = {
+      id: nextActionId++,
+      hook,
+      componentName: entry.componentName,
+      action: args[0],
+      prevState,
+      nextState,
+      timestamp: Date.now(),
+    };
+    actions.push({ hook: entry, args, record });
+    // 超出的记录提交为初始状态，保证跳转与重新执行时的起点正确
+    while (actions.length > maxAge) {
+      const { hook, record } = actions.shift()!;
+      hook.initialState = record.nextState;
+    }
+    listeners.forEach((listener) => listener(record));
+  };
+}
@@ -0,0 +1,227 @@
+// React 属性名与 Solid 可以识别的 DOM 属性名不一致的部分
+const propAliases: Record<string, string> = {
+  className: "class",
+  htmlFor: "for",
+  tabIndex: "tabindex",
+  dangerouslySetInnerHTML: "innerHTML",
+  // 非受控表单的初始值，直接设置 DOM 上的同名属性即可
+  defaultValue: "prop:defaultValue",
+  defaultChecked: "prop:defaultChecked",
+  // SVG 中带命名空间的属性
+  xlinkActuate: "xlink:actuate",
+  xlinkArcrole: "xlink:arcrole",
+  xlinkHref: "xlink:href",
+  xlinkRole: "xlink:role",
+  xlinkShow: "xlink:show",
+  xlinkTitle: "xlink:title",
+  xlinkType: "xlink:type",
+  xmlBase: "xml:base",
+  xmlLang: "xml:lang",
+  xmlSpace: "xml:space",
+  xmlnsXlink: "xmlns:xlink",
+};
+
+// SVG 中以连字符命名的属性，React 中使用驼峰命名（viewBox 等本身就是驼峰命名的属性保持不变）
+[
+  "accent-height",
+  "alignment-baseline",
+  "arabic-form",
+  "baseline-shift",
+  "cap-height",
+  "clip-path",
+  "clip-rule",
+  "color-interpolation",
+  "color-interpolation-filters",
+  "color-profile",
+  "color-rendering",
+  "dominant-baseline",
+  "enable-background",
+  "fill-opacity",
+  "fill-rule",
+  "flood-color",
+  "flood-opacity",
+  "font-family",
+  "font-size",
+  "font-size-adjust",
+  "font-stretch",
+  "font-style",
+  "font-variant",
+  "font-weight",
+  "glyph-name",
+  "glyph-orientation-horizontal",
+  "glyph-orientation-vertical",
+  "horiz-adv-x",
+  "horiz-origin-x",
+  "image-rendering",
+  "letter-spacing",
+  "lighting-color",
+  "marker-end",
+  "marker-mid",
+  "marker-start",
+  "overline-position",
+  "overline-thickness",
+  "paint-order",
+  "pointer-events",
+  "rendering-intent",
+  "shape-rendering",
+  "stop-color",
+  "stop-opacity",
+  "strikethrough-position",
+  "strikethrough-thickness",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+  "text-anchor",
+  "text-decoration",
+  "text-rendering",
+  "underline-position",
+  "underline-thickness",
+  "unicode-bidi",
+  "unicode-range",
+  "units-per-em",
+  "v-alphabetic",
+  "v-hanging",
+  "v-ideographic",
+  "v-mathematical",
+  "vector-effect",
+  "vert-adv-y",
+  "vert-origin-x",
+  "vert-origin-y",
+  "word-spacing",
+  "writing-mode",
+  "x-height",
+].forEach((name) => {
+  propAliases[name.replace(/-([a-z])/g, (_, char) => char.toUpperCase())] =
+    name;
+});
+
+// 驼峰命名的布尔属性，通过 Solid 的 bool: 前缀转换为小写的属性名，值为假时移除属性，为真时设置为空字符串
+[
+  "allowFullScreen",
+  "autoFocus",
+  "autoPlay",
+  "disablePictureInPicture",
+  "disableRemotePlayback",
+  "formNoValidate",
+  "itemScope",
+  "noModule",
+  "noValidate",
+  "playsInline",
+  "readOnly",
+].forEach((name) => {
+  propAliases[name] = `bool:${name.toLowerCase()}`;
+});
+
+// 数值不需要添加 px 单位的样式，与 React 保持一致
+const unitlessStyles = new Set([
+  "animationIterationCount",
+  "aspectRatio",
+  "borderImageOutset",
+  "borderImageSlice",
+  "borderImageWidth",
+  "boxFlex",
+  "boxFlexGroup",
+  "boxOrdinalGroup",
+  "columnCount",
+  "columns",
+  "flex",
+  "flexGrow",
+  "flexPositive",
+  "flexShrink",
+  "flexNegative",
+  "flexOrder",
+  "gridArea",
+  "gridRow",
+  "gridRowEnd",
+  "gridRowSpan",
+  "gridRowStart",
+  "gridColumn",
+  "gridColumnEnd",
+  "gridColumnSpan",
+  "gridColumnStart",
+  "fontWeight",
+  "lineClamp",
+  "lineHeight",
+  "opacity",
+  "order",
+  "orphans",
+  "scale",
+  "tabSize",
+  "widows",
+  "zIndex",
+  "zoom",
+  "fillOpacity",
+  "floodOpacity",
+  "stopOpacity",
+  "strokeDasharray",
+  "strokeDashoffset",
+  "strokeMiterlimit",
+  "strokeOpacity",
+  "strokeWidth",
+]);
+
+/**
+ * 将 React 的样式对象（驼峰命名、数值自动补 px）转换为 Solid 可以识别的样式对象
+ */
+export function translateStyle(style: unknown): unknown {
+  if (style == null || typeof style !== "object") {
+    return style;
+  }
+  const result: Record<string, string> = {};
+  Object.keys(style).forEach((name) => {
+    const value = (style as Record<string, unknown>)[name];
+    if (value == null || typeof value === "boolean" || value === "") {
+      return;
+    }
+    // CSS 变量原样保留，WebkitTransition -> -webkit-transition，msTransform -> -ms-transform
+    const isCustomProperty = name.indexOf("--") === 0;
+    const cssName = isCustomProperty
+      ? name
+      : name
+          .replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+          .replace(/^ms-/, "-ms-");
+    result[cssName] =
+      typeof value === "number" &&
+      value !== 0 &&
+      !isCustomProperty &&
+      !unitlessStyles.has(name)
+        ? `${value}px`
+        : `${value}`;
+  });
+  return result;
+}
+
+function translateDomPropValue(name: string, value: unknown): unknown {
+  switch (name) {
+    case "style":
+      return translateStyle(value);
+    case "dangerouslySetInnerHTML":
+      return value == null ? value : (value as { __html?: unknown }).__html;
+    default:
+      return value;
+  }
+}
+
+/**
+ * 将 React DOM 属性对象转换为 Solid 可以识别的属性对象，
+ * 属性值通过 getter 延迟读取，保留原有的响应能力
+ */
+export function translateDomProps(
+  props: Record<string, unknown> | null | undefined
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (props != null) {
+    Object.keys(props).forEach((name) => {
+      Object.defineProperty(result, propAliases[name] ?? name, {
+        configurable: true,
+        enumerable: true,
+        get: () => translateDomPropValue(name, props[name]),
+      });
+    });
+  }
+  return result;
+}
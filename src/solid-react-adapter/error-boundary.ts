@@ -0,0 +1,110 @@
+import type { JSX } from "solid-js/jsx-runtime";
+import { Component, ErrorInfo } from "./component";
+
+export interface FallbackProps {
+  error: any;
+  resetErrorBoundary: () => void;
+}
+
+export interface ErrorBoundaryProps {
+  children?: JSX.Element;
+  /**
+   * 出错时渲染的内容
+   */
+  fallback?: JSX.Element;
+  /**
+   * 出错时渲染的内容，可以拿到错误及重置函数，优先级高于 fallback
+   */
+  fallbackRender?: (props: FallbackProps) => JSX.Element;
+  onError?: (error: Error, info: ErrorInfo) => void;
+  onReset?: () => void;
+  /**
+   * 其中任意一项发生变化时自动重置错误状态
+   */
+  resetKeys?: readonly unknown[];
+}
+
+interface ErrorBoundaryState {
+  didCatch: boolean;
+  error: any;
+}
+
+function hasResetKeysChanged(
+  prevKeys: readonly unknown[] = [],
+  nextKeys: readonly unknown[] = []
+) {
+  return (
+    prevKeys.length !== nextKeys.length ||
+    prevKeys.some((key, index) => !Object.is(key, nextKeys[index]))
+  );
+}
+
+/**
+ * 开箱即用的错误边界，一个组件出错不会导致整个页面白屏
+ *
+ * @example
+ *
+ * ```tsx
+ * <ErrorBoundary
+ *   fallbackRender={({ error, resetErrorBoundary }) => (
+ *     <button onClick={resetErrorBoundary}>{error.message}</button>
+ *   )}
+ * >
+ *   <Widget />
+ * </ErrorBoundary>
+ * ```
+ */
+export class ErrorBoundary extends Component<
+  ErrorBoundaryProps,
+  ErrorBoundaryState
+> {
+  static displayName = "ErrorBoundary";
+
+  static getDerivedStateFromError(error: any): ErrorBoundaryState {
+    return { didCatch: true, error };
+  }
+
+  state: ErrorBoundaryState = { didCatch: false, error: null };
+
+  resetErrorBoundary = () => {
+    if (this.state.didCatch) {
+      if (this.props.onReset) {
+        this.props.onReset();
+      }
+      this.setState({ didCatch: false, error: null });
+    }
+  };
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    if (this.props.onError) {
+      this.props.onError(error, info);
+    }
+  }
+
+  componentDidUpdate(
+    prevProps: Readonly<ErrorBoundaryProps>,
+    prevState: Readonly<ErrorBoundaryState>
+  ) {
+    // 出错之后 resetKeys 发生变化，自动重置
+    if (
+      this.state.didCatch &&
+      prevState.didCatch &&
+      hasResetKeysChanged(prevProps.resetKeys, this.props.resetKeys)
+    ) {
+      this.resetErrorBoundary();
+    }
+  }
+
+  render(): JSX.Element {
+    if (this.state.didCatch) {
+      const { fallback, fallbackRender } = this.props;
+      return fallbackRender
+        ? fallbackRender({
+            error: this.state.error,
+            resetErrorBoundary: this.resetErrorBoundary,
+          })
+        : (fallback ?? null);
+    }
+    return this.props.children;
+  }
+}
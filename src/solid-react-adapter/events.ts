@@ -0,0 +1,224 @@
+type NativeEvent = globalThis.Event;
+type NativeFocusEvent = globalThis.FocusEvent;
+type NativeKeyboardEvent = globalThis.KeyboardEvent;
+type NativeMouseEvent = globalThis.MouseEvent;
+type NativeUIEvent = globalThis.UIEvent;
+
+export interface BaseSyntheticEvent<E = object, C = any, T = any> {
+  nativeEvent: E;
+  currentTarget: C;
+  target: T;
+  bubbles: boolean;
+  cancelable: boolean;
+  defaultPrevented: boolean;
+  eventPhase: number;
+  isTrusted: boolean;
+  preventDefault(): void;
+  isDefaultPrevented(): boolean;
+  stopPropagation(): void;
+  isPropagationStopped(): boolean;
+  persist(): void;
+  timeStamp: number;
+  type: string;
+}
+
+/**
+ * currentTarget - a reference to the element on which the event listener is registered.
+ *
+ * target - a reference to the element from which the event was originally dispatched.
+ * This might be a child element to the element on which the event listener is registered.
+ * If you thought this should be `EventTarget & T`, see https://github.com/DefinitelyTyped/DefinitelyTyped/issues/11508#issuecomment-256045682
+ */
+export interface SyntheticEvent<
+  T = Element,
+  E = NativeEvent,
+> extends BaseSyntheticEvent<E, EventTarget & T, EventTarget> {}
+
+export interface FormEvent<T = Element> extends SyntheticEvent<T> {}
+
+export interface ChangeEvent<T = Element> extends SyntheticEvent<T> {
+  target: EventTarget & T;
+}
+
+export interface FocusEvent<
+  Target = Element,
+  RelatedTarget = Element,
+> extends SyntheticEvent<Target, NativeFocusEvent> {
+  relatedTarget: (EventTarget & RelatedTarget) | null;
+  target: EventTarget & Target;
+}
+
+export interface UIEvent<T = Element, E = NativeUIEvent> extends SyntheticEvent<
+  T,
+  E
+> {
+  detail: number;
+  view: Window | null;
+}
+
+export interface KeyboardEvent<T = Element> extends UIEvent<
+  T,
+  NativeKeyboardEvent
+> {
+  altKey: boolean;
+  ctrlKey: boolean;
+  code: string;
+  /**
+   * See [DOM Level 3 Events spec](https://www.w3.org/TR/uievents-key/#keys-modifier). for a list of valid (case-sensitive) arguments to this method.
+   */
+  getModifierState(key: string): boolean;
+  /**
+   * See the [DOM Level 3 Events spec](https://www.w3.org/TR/uievents-key/#named-key-attribute-values). for possible values
+   */
+  key: string;
+  locale: string;
+  location: number;
+  metaKey: boolean;
+  repeat: boolean;
+  shiftKey: boolean;
+}
+
+export interface MouseEvent<T = Element, E = NativeMouseEvent> extends UIEvent<
+  T,
+  E
+> {
+  altKey: boolean;
+  button: number;
+  buttons: number;
+  clientX: number;
+  clientY: number;
+  ctrlKey: boolean;
+  /**
+   * See [DOM Level 3 Events spec](https://www.w3.org/TR/uievents-key/#keys-modifier). for a list of valid (case-sensitive) arguments to this method.
+   */
+  getModifierState(key: string): boolean;
+  metaKey: boolean;
+  movementX: number;
+  movementY: number;
+  pageX: number;
+  pageY: number;
+  relatedTarget: EventTarget | null;
+  screenX: number;
+  screenY: number;
+  shiftKey: boolean;
+}
+
+type EventHandler<E extends SyntheticEvent<any>> = {
+  bivarianceHack(event: E): void;
+}["bivarianceHack"];
+
+export type ReactEventHandler<T = Element> = EventHandler<SyntheticEvent<T>>;
+export type FormEventHandler<T = Element> = EventHandler<FormEvent<T>>;
+export type ChangeEventHandler<T = Element> = EventHandler<ChangeEvent<T>>;
+export type FocusEventHandler<T = Element> = EventHandler<FocusEvent<T>>;
+export type KeyboardEventHandler<T = Element> = EventHandler<KeyboardEvent<T>>;
+export type MouseEventHandler<T = Element> = EventHandler<MouseEvent<T>>;
+
+/**
+ * 包装原生事件，未列出的字段（clientX、key 等）直接从原生事件上读取
+ */
+export function createSyntheticEvent(
+  nativeEvent: NativeEvent,
+  currentTarget: EventTarget
+): SyntheticEvent {
+  let propagationStopped = false;
+  const syntheticEvent: Record<string | symbol, any> = {
+    nativeEvent,
+    // 原生事件派发结束后 currentTarget 会被置空，这里固定为绑定事件的元素
+    currentTarget,
+    preventDefault() {
+      nativeEvent.preventDefault();
+    },
+    isDefaultPrevented() {
+      return nativeEvent.defaultPrevented;
+    },
+    stopPropagation() {
+      propagationStopped = true;
+      nativeEvent.stopPropagation();
+    },
+    isPropagationStopped() {
+      return propagationStopped;
+    },
+    // 没有事件池，事件对象本身就可以在异步代码中继续使用
+    persist() {},
+    isPersistent() {
+      return true;
+    },
+  };
+  return new Proxy(syntheticEvent, {
+    get(target, name) {
+      if (name in target) {
+        return target[name];
+      }
+      const value = (nativeEvent as any)[name];
+      return typeof value === "function" ? value.bind(nativeEvent) : value;
+    },
+    has(target, name) {
+      return name in target || name in nativeEvent;
+    },
+  }) as SyntheticEvent;
+}
+
+// React 事件名与原生事件名不一致的部分，onFocus/onBlur 在 React 中是冒泡的
+const nativeEventTypes: Record<string, string[]> = {
+  doubleclick: ["dblclick"],
+  focus: ["focusin"],
+  blur: ["focusout"],
+  // onChange 需要同时监听两个事件，在触发时再按元素类型筛选
+  change: ["input", "change"],
+};
+
+const regCapture = /Capture$/;
+const regPointerCapture = /^(Got|Lost)PointerCapture$/;
+
+export function isEventProp(name: string) {
+  return /^on[A-Z]/.test(name);
+}
+
+// 文本输入框的 onChange 在每次输入时触发，而不是失去焦点时
+function isTextInput(target: EventTarget | null) {
+  if (target instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  return (
+    target instanceof HTMLInputElement &&
+    !/^(checkbox|radio|file|submit|reset|button)$/.test(target.type)
+  );
+}
+
+/**
+ * 将 React 的事件属性（onClick、onChangeCapture 等）绑定为原生事件监听，返回解绑函数。
+ * 每次触发时通过 getHandler 读取最新的处理函数，属性变化后无需重新绑定
+ */
+export function listenEventProp(
+  element: Element,
+  name: string,
+  getHandler: () => unknown
+): () => void {
+  let eventName = name.slice(2);
+  const capture =
+    regCapture.test(eventName) && !regPointerCapture.test(eventName);
+  if (capture) {
+    eventName = eventName.replace(regCapture, "");
+  }
+  eventName = eventName.toLowerCase();
+  const types = nativeEventTypes[eventName] ?? [eventName];
+  const listener = (event: NativeEvent) => {
+    if (
+      eventName === "change" &&
+      (event.type === "input") !== isTextInput(event.target)
+    ) {
+      return;
+    }
+    const handler = getHandler();
+    if (typeof handler === "function") {
+      handler(createSyntheticEvent(event, element));
+    }
+  };
+  types.forEach((type) => element.addEventListener(type, listener, capture));
+  return () => {
+    types.forEach((type) =>
+      element.removeEventListener(type, listener, capture)
+    );
+  };
+}
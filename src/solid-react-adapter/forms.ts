@@ -0,0 +1,145 @@
+import { createRenderEffect, onCleanup } from "solid-js";
+import { flushPendingSignals, microDelay } from "./patch";
+
+type FormElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+/**
+ * 需要按 React 的受控/非受控语义处理的表单属性，
+ * input、textarea 的 defaultValue、defaultChecked 直接设置 DOM 属性即可，不在此列
+ */
+export function isFormProp(tag: string, name: string) {
+  switch (tag) {
+    case "input":
+      return name === "value" || name === "checked";
+    case "textarea":
+      return name === "value";
+    case "select":
+      return name === "value" || name === "defaultValue";
+    default:
+      return false;
+  }
+}
+
+function toValueString(value: unknown) {
+  return value == null ? "" : `${value}`;
+}
+
+function setSelectValue(select: HTMLSelectElement, value: unknown) {
+  const options = Array.from(select.options);
+  if (select.multiple) {
+    const values = new Set(
+      (Array.isArray(value) ? value : [value]).map(toValueString)
+    );
+    options.forEach((option) => {
+      const selected = values.has(option.value);
+      if (option.selected !== selected) {
+        option.selected = selected;
+      }
+    });
+  } else {
+    const valueStr = toValueString(value);
+    const option =
+      options.find((option) => option.value === valueStr) ??
+      // 没有匹配的选项时与 React 一致，选中第一个可用的选项
+      options.find((option) => !option.disabled);
+    if (option && !option.selected) {
+      option.selected = true;
+    }
+  }
+}
+
+// 受控的单选框，同名单选框被点击时，浏览器会取消其他单选框的选中状态，需要一并恢复
+const radioSyncs: WeakMap<Element, () => void> = new WeakMap();
+
+function getSameNameRadios(input: HTMLInputElement) {
+  const root = input.form ?? input.getRootNode();
+  if (!input.name || !("querySelectorAll" in root)) {
+    return [];
+  }
+  return Array.from(
+    (root as ParentNode).querySelectorAll("input[type=radio]")
+  ).filter(
+    (radio) =>
+      radio !== input && (radio as HTMLInputElement).name === input.name
+  );
+}
+
+/**
+ * 绑定表单元素的 value、checked 等属性。
+ * 受控属性（value、checked 不为空）在每次 input、change 事件之后都会恢复为最新的属性值，
+ * 事件处理函数拒绝更新时，DOM 中的值也会回到原来的状态；select 的 defaultValue 只在首次渲染时生效
+ */
+export function bindFormProps(
+  element: FormElement,
+  names: string[],
+  getProp: (name: string) => unknown
+) {
+  const has = (name: string) => names.indexOf(name) !== -1;
+  let mounted = false;
+  const sync = () => {
+    if (has("value")) {
+      const value = getProp("value");
+      if (value != null) {
+        if (element instanceof HTMLSelectElement) {
+          setSelectValue(element, value);
+        } else if (element.value !== toValueString(value)) {
+          // 值相同时不重新赋值，避免输入时光标跳到末尾
+          element.value = toValueString(value);
+        }
+      }
+    }
+    if (has("checked") && element instanceof HTMLInputElement) {
+      const checked = getProp("checked");
+      if (checked != null && element.checked !== !!checked) {
+        element.checked = !!checked;
+      }
+    }
+    if (!mounted) {
+      mounted = true;
+      if (
+        has("defaultValue") &&
+        element instanceof HTMLSelectElement &&
+        getProp("value") == null
+      ) {
+        setSelectValue(element, getProp("defaultValue"));
+      }
+    }
+  };
+  // 属性变化时同步到 DOM
+  createRenderEffect(sync);
+
+  // 事件处理函数中的状态更新提交之后，再把 DOM 恢复为最新的属性值
+  const restore = () => {
+    microDelay.then(() => {
+      flushPendingSignals();
+      sync();
+      if (element instanceof HTMLInputElement && element.type === "radio") {
+        getSameNameRadios(element).forEach((radio) =>
+          radioSyncs.get(radio)?.()
+        );
+      }
+    });
+  };
+  element.addEventListener("input", restore);
+  element.addEventListener("change", restore);
+  if (element instanceof HTMLInputElement) {
+    radioSyncs.set(element, sync);
+  }
+
+  // select 的选项可能晚于 value 渲染或发生变化，选项变化后重新同步选中状态
+  let observer: MutationObserver | undefined;
+  if (
+    element instanceof HTMLSelectElement &&
+    typeof MutationObserver !== "undefined"
+  ) {
+    observer = new MutationObserver(sync);
+    observer.observe(element, { childList: true, subtree: true });
+  }
+
+  onCleanup(() => {
+    element.removeEventListener("input", restore);
+    element.removeEventListener("change", restore);
+    radioSyncs.delete(element);
+    observer?.disconnect();
+  });
+}
@@ -2,13 +2,33 @@ import {
   createContext as _createContext,
   useContext as _useContext,
   Context,
+  createComputed,
   createEffect,
   createRenderEffect,
   FlowComponent,
   JSX,
+  createSignal as _createSignal,
+  createUniqueId,
   onCleanup,
+  startTransition as _startTransition,
+  untrack,
+  useTransition as _useTransition,
 } from "solid-js";
-import { createSignal, microDelay, solidPatchDeps } from "./patch";
+import { isServer } from "solid-js/web";
+import {
+  attachRef,
+  createSignal,
+  createStateProxy,
+  flushPendingSignals,
+  IdentifierPrefixContext,
+  isReactiveValue,
+  markTrackable,
+  readReactiveValue,
+  solidPatchDeps,
+  symbolValidate,
+} from "./patch";
+import { connectStateHook } from "./devtools";
+import { EffectInstance, EffectPhase, scheduleEffect } from "./scheduler";
 
 /**
  * The instruction passed to a {@link Dispatch} function in {@link useState}
@@ -51,14 +71,6 @@ export type Destructor = () => void;
 // NOTE: callbacks are _only_ allowed to return either void, or a destructor.
 export type EffectCallback = () => void | Destructor;
 
-const symbolValidate = Symbol("validate");
-Object.defineProperty(Symbol, "symbolValidate", {
-  configurable: true,
-  enumerable: false,
-  writable: false,
-  value: symbolValidate,
-});
-
 export function useState<S>(
   initialState: S | (() => S)
 ): [S, Dispatch<SetStateAction<S>>];
@@ -71,36 +83,64 @@ export function useState<S>(state?: S | (() => S)) {
     state = (state as () => S)();
   }
   const [signal, setSignal] = createSignal(state);
+  const record = connectStateHook(
+    "useState",
+    state,
+    (value) => setSignal(() => value),
+    (prevState, [action]) =>
+      typeof action === "function" ? action(prevState) : action
+  );
   return [
-    new Proxy(signal, {
-      get(_, key) {
-        const value = signal();
-        switch (key) {
-          case Symbol.toPrimitive:
-          case "toJSON":
-            return signal;
-          case solidPatchDeps:
-            return (signal as any as { [solidPatchDeps]: DependencyList })[
-              solidPatchDeps
-            ];
-          default:
-            return Reflect.get(value!, key);
+    createStateProxy(signal),
+    record
+      ? (action: SetStateAction<S>) => {
+          const prevState = untrack(signal);
+          record([action], prevState, setSignal(action as any));
         }
-      },
-    }),
-    setSignal,
+      : setSignal,
   ];
 }
 
+/**
+ * @param subscribe
+ * @param getSnapshot
+ *
+ * @see {@link https://github.com/reactwg/react-18/discussions/86}
+ */
+// keep in sync with `useSyncExternalStore` from `use-sync-external-store`
+export function useSyncExternalStore<Snapshot>(
+  subscribe: (onStoreChange: () => void) => () => void,
+  getSnapshot: () => Snapshot,
+  getServerSnapshot?: () => Snapshot
+): Snapshot {
+  const [signal, setSignal] = createSignal(
+    isServer && getServerSnapshot ? getServerSnapshot() : getSnapshot()
+  );
+  const handleStoreChange = () => {
+    const snapshot = getSnapshot();
+    // 适配层的 signal 在提交前读取到的也是最新值，所以同一时刻所有读取方拿到的快照都是一致的
+    if (!Object.is(signal(), snapshot)) {
+      setSignal(() => snapshot);
+    }
+  };
+  createComputed(() => {
+    const unsubscribe = untrack(() => subscribe(handleStoreChange));
+    // 订阅之前 store 可能已经发生了变化
+    untrack(handleStoreChange);
+    onCleanup(unsubscribe);
+  });
+  return createStateProxy(signal);
+}
+
 function trackDeps(deps: DependencyList) {
   if (deps.length > 0) {
     // 去重
     const depMap: Map<unknown, boolean> = new Map();
     deps.forEach((dep) => {
-      if (typeof dep === "function" && solidPatchDeps in (dep as any)) {
+      if (isReactiveValue(dep)) {
         if (!depMap.has(dep)) {
           depMap.set(dep, true);
-          dep(symbolValidate);
+          readReactiveValue(dep);
           // 还要间接追踪依赖
           trackDeps((dep as any)[solidPatchDeps]);
         }
@@ -185,7 +225,25 @@ export function useMemo<T>(factory: () => T, deps: DependencyList): T {
     writable: false,
     value: deps,
   });
-  return memo;
+  // 返回值可能是对象（如 react-redux 的 context value），通过代理让属性访问、解构也能读取到最新的值
+  return createStateProxy(memo as () => T);
+}
+
+// deps 变化时把 effect 交给调度器，在对应阶段统一执行，effect 本身不会被自动收集依赖
+function useEffectInPhase(
+  phase: EffectPhase,
+  effect: EffectCallback,
+  deps?: DependencyList
+) {
+  const instance: EffectInstance = {};
+  createEffect(() => {
+    if (deps) {
+      trackDeps(deps);
+    }
+    scheduleEffect(phase, instance, effect);
+  });
+  // 销毁时调用清理函数
+  onCleanup(() => scheduleEffect(phase, instance, null));
 }
 
 /**
@@ -198,37 +256,7 @@ export function useMemo<T>(factory: () => T, deps: DependencyList): T {
  * @see {@link https://react.dev/reference/react/useEffect}
  */
 export function useEffect(effect: EffectCallback, deps?: DependencyList): void {
-  let cleanup: Destructor | void;
-  createEffect(() => {
-    if (deps) {
-      trackDeps(deps);
-    }
-    // 使用微任务延时调用 effect，一方面避免自动收集依赖，另一方面也是模仿了 useEffect 的实际行为
-    // useEffect 在三个 Effect 系列中是最后触发的，所以要延时3次
-    microDelay.then(() => {
-      microDelay.then(() => {
-        microDelay.then(() => {
-          if (cleanup) {
-            cleanup();
-          }
-          cleanup = effect();
-        });
-      });
-    });
-    // 销毁时调用
-    onCleanup(() => {
-      microDelay.then(() => {
-        microDelay.then(() => {
-          microDelay.then(() => {
-            if (cleanup) {
-              cleanup();
-              cleanup = undefined;
-            }
-          });
-        });
-      });
-    });
-  });
+  useEffectInPhase("passive", effect, deps);
 }
 
 /**
@@ -248,33 +276,7 @@ export function useLayoutEffect(
   effect: EffectCallback,
   deps?: DependencyList
 ): void {
-  let cleanup: Destructor | void;
-  createEffect(() => {
-    if (deps) {
-      trackDeps(deps);
-    }
-    // 使用微任务延时调用 effect，一方面避免自动收集依赖，另一方面也是模仿了 useEffect 的实际行为
-    // useLayoutEffect 在三个 Effect 系列中第二触发，所以要延时2次
-    microDelay.then(() => {
-      microDelay.then(() => {
-        if (cleanup) {
-          cleanup();
-        }
-        cleanup = effect();
-      });
-    });
-    // 销毁时调用
-    onCleanup(() => {
-      microDelay.then(() => {
-        microDelay.then(() => {
-          if (cleanup) {
-            cleanup();
-            cleanup = undefined;
-          }
-        });
-      });
-    });
-  });
+  useEffectInPhase("layout", effect, deps);
 }
 
 /**
@@ -287,28 +289,7 @@ export function useInsertionEffect(
   effect: EffectCallback,
   deps?: DependencyList
 ): void {
-  let cleanup: Destructor | void;
-  createEffect(() => {
-    if (deps) {
-      trackDeps(deps);
-    }
-    // 使用微任务延时调用 effect，一方面避免自动收集依赖，另一方面也是模仿了 useEffect 的实际行为
-    microDelay.then(() => {
-      if (cleanup) {
-        cleanup();
-      }
-      cleanup = effect();
-    });
-    // 销毁时调用
-    onCleanup(() => {
-      microDelay.then(() => {
-        if (cleanup) {
-          cleanup();
-          cleanup = undefined;
-        }
-      });
-    });
-  });
+  useEffectInPhase("insertion", effect, deps);
 }
 
 /**
@@ -332,6 +313,45 @@ export type RefObject<T> = {
   current: T;
 };
 
+/**
+ * A callback fired whenever the ref's value changes.
+ *
+ * @template T The type of the ref's value.
+ *
+ * @see {@link https://react.dev/reference/react-dom/components/common#ref-callback React Docs}
+ *
+ * @example
+ *
+ * ```tsx
+ * <div ref={(node) => console.log(node)} />
+ * ```
+ */
+export type RefCallback<T> = {
+  bivarianceHack(instance: T | null): void | (() => void);
+}["bivarianceHack"];
+
+/**
+ * A union type of all possible shapes for React refs.
+ *
+ * @see {@link RefCallback}
+ * @see {@link RefObject}
+ */
+export type Ref<T> = RefCallback<T> | RefObject<T | null> | null;
+
+/**
+ * Creates a ref object, which can be passed to a component or element to store its instance.
+ *
+ * @see {@link https://react.dev/reference/react/createRef}
+ */
+export function createRef<T>(): RefObject<T | null> {
+  // 与 useRef 一样返回一个函数，只用 ref 的函数模式
+  const ref = ((v: T | null) => {
+    ref.current = v;
+  }) as RefObject<T | null>;
+  ref.current = null;
+  return ref;
+}
+
 /**
  * `useRef` returns a mutable ref object whose `.current` property is initialized to the passed argument
  * (`initialValue`). The returned object will persist for the full lifetime of the component.
@@ -376,10 +396,8 @@ export function useRef<T, Init = T | null | undefined>(
   const ref = ((v: Exclude<Init, null>) => {
     ref.current = v;
   }) as RefObject<Exclude<Init, null>>;
-  ref.current = (initialValue === null ? undefined : initialValue) as Exclude<
-    Init,
-    null
-  >;
+  // 与 React 一致保留初始值 null，第三方库会用 current === null 判断是否已初始化
+  ref.current = initialValue as Exclude<Init, null>;
   return ref;
 }
 
@@ -481,15 +499,158 @@ export function useReducer<S, I, A extends AnyActionArg>(
   initialState: I | S,
   init?: (i: I) => S
 ): [S, ActionDispatch<A>] {
-  if (init) {
-    initialState = init(initialState as I);
-  }
-  const [state, setState] = useState(initialState as S);
-  return [
+  // 组件函数只会执行一次，init 也只会执行一次
+  const state = init
+    ? untrack(() => init(initialState as I))
+    : (initialState as S);
+  const [signal, setSignal] = createSignal(
     state,
-    (...args: A) => {
-      const newState = reducer(state, ...args);
-      setState(newState as Exclude<S, Function>);
+    // 与 React 一致，reducer 返回同一个 state 时跳过更新
+    { equals: Object.is }
+  );
+  const record = connectStateHook(
+    "useReducer",
+    state,
+    (value) => setSignal(() => value),
+    (prevState, args) => reducer(prevState, ...(args as A))
+  );
+  // dispatch 的引用保持不变；使用函数形式的更新，
+  // 同一时刻的多次 dispatch 会依次基于上一次的结果计算，而不是都基于创建时的 state
+  const dispatch = (...args: A) => {
+    const prevState = record && untrack(signal);
+    const nextState = setSignal((prevState) =>
+      untrack(() => reducer(prevState as S, ...args))
+    );
+    record?.(args, prevState as S, nextState);
+  };
+  return [createStateProxy(signal), dispatch];
+}
+
+/**
+ * `useDebugValue` can be used to display a label for custom hooks in React DevTools.
+ *
+ * NOTE: We don’t recommend adding debug values to every custom hook.
+ * It’s most valuable for custom hooks that are part of shared libraries.
+ *
+ * @version 16.8.0
+ * @see {@link https://react.dev/reference/react/useDebugValue}
+ */
+// the name of the custom hook is itself derived from the function name at runtime:
+// it's just the function name without the "use" prefix.
+export function useDebugValue<T>(value: T, format?: (value: T) => any): void {
+  // 没有 React DevTools，什么也不做
+}
+
+export type TransitionFunction = () => void;
+
+export interface TransitionStartFunction {
+  /**
+   * State updates caused inside the callback are allowed to be deferred.
+   *
+   * **If some state update causes a component to suspend, that state update should be wrapped in a transition.**
+   *
+   * @param callback A _synchronous_ function which causes state updates that can be deferred.
+   */
+  (callback: TransitionFunction): void;
+}
+
+/**
+ * Similar to `useTransition` but allows uses where hooks are not available.
+ *
+ * @param scope A _synchronous_ function which causes state updates that can be deferred.
+ *
+ * @see {@link https://react.dev/reference/react/startTransition}
+ */
+export function startTransition(scope: TransitionFunction): void {
+  _startTransition(() => {
+    scope();
+    // 适配层的 signal 默认在微任务中才提交，需要在 transition 内同步提交
+    flushPendingSignals();
+  });
+}
+
+/**
+ * Allows components to avoid undesirable loading states by waiting for content to load
+ * before transitioning to the next screen. It also allows components to defer slower,
+ * data fetching updates until subsequent renders so that more crucial updates can be
+ * rendered immediately.
+ *
+ * If some state update causes a component to suspend, that state update should be wrapped in a transition.
+ *
+ * @see {@link https://react.dev/reference/react/useTransition}
+ */
+export function useTransition(): [boolean, TransitionStartFunction] {
+  const [pending, start] = _useTransition();
+  return [
+    createStateProxy(markTrackable(() => pending())),
+    (callback) => {
+      start(() => {
+        callback();
+        flushPendingSignals();
+      });
     },
   ];
 }
+
+/**
+ * Returns a deferred version of the value that may “lag behind” it.
+ *
+ * This is commonly used to keep the interface responsive when you have something that renders immediately
+ * based on user input and something that needs to wait for a data fetch.
+ *
+ * @param value The value that is going to be deferred
+ * @param initialValue A value to use during the initial render of a component.
+ *
+ * @see {@link https://react.dev/reference/react/useDeferredValue}
+ */
+export function useDeferredValue<T>(value: T, initialValue?: T): T {
+  // value 可能是 useState、useMemo 返回的响应式的值
+  const read = () => readReactiveValue(value) as T;
+  const [deferred, setDeferred] = _createSignal(
+    initialValue === undefined ? untrack(read) : initialValue
+  );
+  const [, start] = _useTransition();
+  // effect 在渲染完成之后执行，延迟值在 transition 中更新，因此会落后于输入
+  createEffect(() => {
+    const next = read();
+    start(() => setDeferred(() => next));
+  });
+  return createStateProxy(markTrackable(() => deferred()));
+}
+
+/**
+ * Generates a unique ID that can be passed to accessibility attributes.
+ *
+ * 基于 Solid 的 createUniqueId，服务端渲染与 hydrate 时按 owner 树生成，两端一致
+ *
+ * @see {@link https://react.dev/reference/react/useId}
+ */
+export function useId(): string {
+  const prefix = _useContext(IdentifierPrefixContext);
+  return `:${prefix}r${createUniqueId()}:`;
+}
+
+/**
+ * `useImperativeHandle` customizes the instance value that is exposed to parent components when using
+ * `ref`. As always, imperative code using refs should be avoided in most cases.
+ *
+ * `useImperativeHandle` should be used with `React.forwardRef`.
+ *
+ * @version 16.8.0
+ * @see {@link https://react.dev/reference/react/useImperativeHandle}
+ */
+export function useImperativeHandle<T, R extends T>(
+  ref: Ref<T> | undefined,
+  init: () => R,
+  deps?: DependencyList
+): void {
+  // 使用立即执行的 createRenderEffect，父组件在自己的 effect 中即可拿到 handle
+  createRenderEffect(() => {
+    if (deps) {
+      trackDeps(deps);
+    }
+    const detach = untrack(() => attachRef(ref, init()));
+    // deps 变化或组件销毁时解绑，函数 ref 返回的清理函数也会在此时调用
+    onCleanup(detach);
+  });
+}
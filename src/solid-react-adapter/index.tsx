@@ -1,24 +1,180 @@
-import { Ref } from "solid-js";
+import {
+  children as resolveChildren,
+  createComputed,
+  createSignal,
+  lazy as _lazy,
+  onCleanup,
+  Suspense as _Suspense,
+  untrack,
+} from "solid-js";
+import { createComponent } from "solid-js/web";
 import type { JSX } from "solid-js/jsx-runtime";
+import { Component, ComponentClass, PureComponent } from "./component";
+import { disableStateDevtools, enableStateDevtools } from "./devtools";
+import { ErrorBoundary } from "./error-boundary";
 import * as hooks from "./hooks";
-import { RefObject } from "./hooks";
+import { Ref, RefObject } from "./hooks";
+import {
+  attachRef,
+  createReactElement,
+  createStateProxy,
+  isReactElement,
+  isReactiveValue,
+  markTrackable,
+  REACT_FRAGMENT_TYPE,
+  readReactiveValue,
+  shallowEqual,
+  validateChildKeys,
+  wrapSolidComp,
+} from "./patch";
 
+export * from "./component";
+export * from "./error-boundary";
+export type {
+  BaseSyntheticEvent,
+  ChangeEvent,
+  ChangeEventHandler,
+  FocusEvent,
+  FocusEventHandler,
+  FormEvent,
+  FormEventHandler,
+  KeyboardEvent,
+  KeyboardEventHandler,
+  MouseEvent,
+  MouseEventHandler,
+  ReactEventHandler,
+  SyntheticEvent,
+  UIEvent,
+} from "./events";
+export { disableStateDevtools, enableStateDevtools };
+export type {
+  StateActionRecord,
+  StateDevtools,
+  StateDevtoolsMessage,
+  StateDevtoolsOptions,
+  StateHookKind,
+} from "./devtools";
 export * from "./hooks";
 
-export type FunctionComponent<P = {}> = (props: P) => JSX.Element;
+export interface FunctionComponent<P = {}> {
+  (props: P): JSX.Element;
+  /**
+   * Used in debugging messages. You might want to set it
+   * explicitly if you want to display a different name for
+   * debugging purposes.
+   */
+  displayName?: string | undefined;
+}
 export type FC<P = {}> = FunctionComponent<P>;
 
-export type ComponentType<P = {}> = FunctionComponent<P>;
+export type ComponentType<P = {}> = ComponentClass<P> | FunctionComponent<P>;
 
+/**
+ * 创建元素描述对象，只有放进 Solid 树中时才会真正渲染，
+ * 因此可以通过 `element.type`、`element.props` 读取，也可以被 {@link cloneElement}
+ *
+ * @see {@link https://react.dev/reference/react/createElement}
+ */
 export function createElement<P = {}>(
-  Identifier: string | ComponentType<P>,
-  props = {} as P,
-  ...children: JSX.Element[]
-): JSX.Element {
-  return <Identifier {...props}>{children}</Identifier>;
+  type: string | ComponentType<P> | ExoticComponent<P>,
+  config?: (P & Attributes) | null,
+  ...children: ReactNode[]
+): ReactElement<P> {
+  const props: Record<string, any> = {};
+  let key: Key | null | undefined;
+  if (config != null) {
+    Object.keys(config).forEach((name) => {
+      if (name === "key") {
+        key = (config as Attributes).key;
+      } else {
+        props[name] = (config as Record<string, any>)[name];
+      }
+    });
+  }
+  // 直接传入的多个 children 是静态的，只有作为参数的数组才是列表
+  children.forEach(validateChildKeys);
+  if (children.length === 1) {
+    props.children = children[0];
+  } else if (children.length > 1) {
+    props.children = children;
+  }
+  return createReactElement(type, props, key) as ReactElement<P>;
+}
+
+/**
+ * 以 element 为基础创建新的元素描述对象，config 中的 props 会覆盖原有的 props
+ *
+ * @see {@link https://react.dev/reference/react/cloneElement}
+ */
+export function cloneElement<P>(
+  element: ReactElement<P>,
+  config?: (Partial<P> & Attributes) | null,
+  ...children: ReactNode[]
+): ReactElement<P> {
+  if (!isValidElement(element)) {
+    // Solid JSX 创建的子元素已经渲染为 DOM 节点，无法再修改 props，原样返回
+    if (isSingleChild(element)) {
+      return element;
+    }
+    throw new Error(
+      `The argument must be a React element, but you passed ${element}.`
+    );
+  }
+  const props: Record<string, any> = {
+    ...(element.props as Record<string, any>),
+  };
+  let key: Key | null = element.key;
+  if (config != null) {
+    Object.keys(config).forEach((name) => {
+      if (name === "key") {
+        key = (config as Attributes).key ?? null;
+      } else {
+        props[name] = (config as Record<string, any>)[name];
+      }
+    });
+  }
+  if (children.length === 1) {
+    props.children = children[0];
+  } else if (children.length > 1) {
+    props.children = children;
+  }
+  return createReactElement(element.type, props, key) as ReactElement<P>;
+}
+
+export const version = "19.1.0";
+
+/**
+ * An object masquerading as a component. These are created by functions
+ * like {@link forwardRef}, {@link memo}, and {@link Fragment}.
+ *
+ * In order to make TypeScript work, we pretend that they are normal
+ * components.
+ */
+export interface ExoticComponent<P = {}> {
+  (props: P): JSX.Element;
+  readonly $$typeof?: symbol;
 }
 
-export const version = "18.3.1";
+/**
+ * Lets you group elements without a wrapper node.
+ *
+ * @see {@link https://react.dev/reference/react/Fragment React Docs}
+ *
+ * @example
+ *
+ * ```tsx
+ * import { Fragment } from 'react';
+ *
+ * <Fragment>
+ *   <td>Hello</td>
+ *   <td>World</td>
+ * </Fragment>
+ * ```
+ */
+export const Fragment = REACT_FRAGMENT_TYPE as unknown as ExoticComponent<{
+  children?: ReactNode | undefined;
+  key?: Key | null | undefined;
+}>;
 
 /**
  * The type of the ref received by a {@link ForwardRefRenderFunction}.
@@ -129,16 +285,25 @@ export type Key = string | number | bigint;
  * Where {@link ReactNode} represents everything that can be rendered, `ReactElement`
  * only represents JSX.
  *
+ * 元素是惰性的描述对象，调用它（即放进 Solid 树中）时才会渲染出真正的 DOM
+ *
  * @template P The type of the props object
  * @template T The type of the component or tag
  *
  * @example
  *
  * ```tsx
- * const element: ReactElement = <div />;
+ * const element: ReactElement = createElement("div");
  * ```
  */
-export type ReactElement = JSX.Element;
+export interface ReactElement<P = any, T = string | ComponentType<any>> {
+  (): JSX.Element;
+  readonly $$typeof: symbol;
+  readonly type: T;
+  readonly props: P;
+  readonly key: string | null;
+  readonly ref: Ref<any>;
+}
 
 export type ReactPortal = ReactElement & {
   children: ReactNode;
@@ -193,6 +358,8 @@ export type AwaitedReactNode =
 // non-thenables need to be kept in sync with AwaitedReactNode
 export type ReactNode =
   | ReactElement
+  // Solid JSX 直接创建的 DOM 也可以被渲染
+  | JSX.Element
   | string
   | number
   | bigint
@@ -293,21 +460,333 @@ export interface RefAttributes<T> extends Attributes {
 export function forwardRef<T, P = {}>(
   render: ForwardRefRenderFunction<T, PropsWithoutRef<P>>
 ): ComponentType<PropsWithoutRef<P> & RefAttributes<T>> {
-  return (props) => {
-    return render(props, props.ref as ForwardedRef<T>);
+  const ForwardRef: ForwardRefExoticComponent<
+    PropsWithoutRef<P> & RefAttributes<T>
+  > = (props) => {
+    if (props.ref == null) {
+      return render(props, null);
+    }
+    // 传给 render 的是一个统一的函数 ref，无论外部传入的是对象 ref 还是函数 ref，
+    // 每次重新绑定前都会先解绑，组件销毁时同样会解绑
+    let detach: (() => void) | undefined;
+    const forwardedRef = ((value: T | null) => {
+      if (detach) {
+        detach();
+        detach = undefined;
+      }
+      if (value != null) {
+        detach = attachRef(props.ref, value);
+      }
+    }) as RefObject<T | null>;
+    onCleanup(() => forwardedRef(null));
+    return render(props, forwardedRef);
   };
+  ForwardRef.displayName = render.displayName || render.name || undefined;
+  return ForwardRef;
 }
 
-export function isValidElement(target: any): boolean {
-  if (Array.isArray(target)) {
-    return target.every(isValidElement);
-  } else {
-    return target instanceof HTMLElement || typeof target !== "object";
-  }
+export type MemoExoticComponent<T extends ComponentType<any>> =
+  FunctionComponent<T extends ComponentType<infer P> ? P : {}> & {
+    readonly type: T;
+    readonly compare: (prevProps: any, nextProps: any) => boolean;
+    displayName?: string | undefined;
+  };
+
+/**
+ * Lets you skip re-rendering a component when its props are unchanged.
+ *
+ * 组件本身只会执行一次，这里控制的是 props 的变化何时传递给下游：
+ * 比较的是解析后的属性值，只有 `propsAreEqual` 返回 false 时，组件内部读取到的 props 才会更新
+ *
+ * @see {@link https://react.dev/reference/react/memo React Docs}
+ *
+ * @param Component The component to memoize.
+ * @param propsAreEqual A function that will be used to determine if the props have changed.
+ * Defaults to a shallow comparison.
+ *
+ * @example
+ *
+ * ```tsx
+ * import { memo } from 'react';
+ *
+ * const SomeComponent = memo(function SomeComponent(props: { foo: string }) {
+ *   // ...
+ * });
+ * ```
+ */
+export function memo<T extends ComponentType<any>>(
+  Component: T,
+  propsAreEqual: (
+    prevProps: Readonly<T extends ComponentType<infer P> ? P : {}>,
+    nextProps: Readonly<T extends ComponentType<infer P> ? P : {}>
+  ) => boolean = shallowEqual
+): MemoExoticComponent<T> {
+  const Memo = ((props: Record<string | symbol, any>) => {
+    const [committed, setCommitted] = createSignal<Record<string, any>>(
+      {},
+      { equals: false }
+    );
+    // 原本是 useState 等返回的响应式的值的属性，传给下游时包装为只依赖 committed 的 state，
+    // 组件内部依旧可以把它们放进 deps，但不会再直接订阅上游的 state
+    const reactiveKeys: Set<string> = new Set();
+    const trackableProps: Record<string, any> = {};
+    createComputed((prevProps?: Record<string, any>) => {
+      // children 每次读取都会重新创建，它的变化由 Solid 自行响应，不参与比较
+      const nextProps: Record<string, any> = {};
+      Object.keys(props).forEach((key) => {
+        if (key !== "children") {
+          const value = props[key];
+          if (isReactiveValue(value)) {
+            reactiveKeys.add(key);
+          }
+          // 比较解析后的值，useState 返回的 Proxy 本身的引用永远不会变化
+          nextProps[key] = readReactiveValue(value);
+        }
+      });
+      if (
+        prevProps &&
+        untrack(() => propsAreEqual(prevProps as any, nextProps as any))
+      ) {
+        return prevProps;
+      }
+      setCommitted(nextProps);
+      return nextProps;
+    });
+    const memoProps = new Proxy({} as Record<string | symbol, any>, {
+      get(_, key) {
+        if (key === "children") {
+          return props.children;
+        }
+        const value = committed()[key as string];
+        if (typeof value === "function" || !reactiveKeys.has(key as string)) {
+          return value;
+        }
+        return (trackableProps[key as string] ??= createStateProxy(
+          markTrackable(() => committed()[key as string])
+        ));
+      },
+      has(_, key) {
+        return key === "children" ? key in props : key in committed();
+      },
+      ownKeys() {
+        const keys = Object.keys(committed());
+        return "children" in props ? keys.concat("children") : keys;
+      },
+      getOwnPropertyDescriptor(_, key) {
+        return {
+          configurable: true,
+          enumerable: true,
+          get: () => memoProps[key],
+        };
+      },
+    });
+    return createComponent(wrapSolidComp(Component), memoProps);
+  }) as unknown as MemoExoticComponent<T>;
+  Object.defineProperties(Memo, {
+    type: { value: Component },
+    compare: { value: propsAreEqual },
+  });
+  Memo.displayName = Component.displayName || Component.name || undefined;
+  return Memo;
+}
+
+/**
+ * The type of the component returned from {@link lazy}.
+ *
+ * @template T The type of the component being lazily loaded.
+ */
+export type LazyExoticComponent<T extends ComponentType<any>> =
+  FunctionComponent<T extends ComponentType<infer P> ? P : {}> & {
+    preload: () => Promise<{ default: FunctionComponent<any> }>;
+  };
+
+/**
+ * Lets you defer loading a component’s code until it is rendered for the first time.
+ *
+ * @see {@link https://react.dev/reference/react/lazy React Docs}
+ *
+ * @param load A function that returns a `Promise` or another thenable (a `Promise`-like object with a
+ * then method). React will not call `load` until the first time you attempt to render the returned
+ * component. After React first calls load, it will wait for it to resolve, and then render the
+ * resolved value’s `.default` as a React component.
+ *
+ * @example
+ *
+ * ```tsx
+ * import { lazy } from 'react';
+ *
+ * const MarkdownPreview = lazy(() => import('./MarkdownPreview.js'));
+ * ```
+ */
+export function lazy<T extends ComponentType<any>>(
+  load: () => Promise<{ default: T }>
+): LazyExoticComponent<T> {
+  // 加载到的组件可能是类组件，统一经过 wrapSolidComp 转换为 Solid 组件
+  return _lazy(() =>
+    load().then((module) => ({ default: wrapSolidComp(module.default) }))
+  ) as LazyExoticComponent<T>;
+}
+
+export interface SuspenseProps {
+  children?: ReactNode | undefined;
+
+  /** A fallback react tree to show when a Suspense child (like React.lazy) suspends */
+  fallback?: ReactNode;
+
+  /**
+   * A name for this Suspense boundary for instrumentation purposes.
+   * The name will help identify this boundary in React DevTools.
+   */
+  name?: string | undefined;
+}
+
+/**
+ * Lets you display a fallback until its children have finished loading.
+ *
+ * 直接使用 Solid 的 Suspense，嵌套的 Suspense 会各自独立显示 fallback
+ *
+ * @see {@link https://react.dev/reference/react/Suspense React Docs}
+ */
+export function Suspense(props: SuspenseProps): JSX.Element {
+  return _Suspense({
+    get fallback() {
+      return props.fallback as JSX.Element;
+    },
+    get children() {
+      // 元素描述对象需要在 Suspense 内创建，其中 lazy 组件的加载状态才会被 Suspense 收集
+      return resolveChildren(
+        () => props.children as JSX.Element
+      ) as unknown as JSX.Element;
+    },
+  });
+}
+
+/**
+ * 只有 {@link createElement}、{@link cloneElement} 及 JSX runtime 创建的元素描述对象才是合法的元素
+ *
+ * @see {@link https://react.dev/reference/react/isValidElement}
+ */
+export function isValidElement<P>(target: any): target is ReactElement<P> {
+  return isReactElement(target);
 }
 
 type SingleOrArray<T> = T | readonly T[];
 
+// 除了元素描述对象，Solid JSX 直接创建的 DOM 节点也可以作为单个子元素，文本等其他值不行
+function isSingleChild(children: unknown): boolean {
+  return (
+    isReactElement(children) ||
+    (typeof Node !== "undefined" && children instanceof Node)
+  );
+}
+
+const SEPARATOR = ".";
+const SUBSEPARATOR = ":";
+
+// 与 React 一致，对 key 中的 `=`、`:` 进行转义，避免与分隔符冲突
+function escapeKey(key: string): string {
+  return "$" + key.replace(/[=:]/g, (match) => (match === "=" ? "=0" : "=2"));
+}
+
+function escapeUserProvidedKey(text: string): string {
+  return text.replace(/\/+/g, "$&/");
+}
+
+function getElementKey(element: any, index: number): string {
+  if (isReactElement(element) && element.key != null) {
+    return escapeKey(String(element.key));
+  }
+  return index.toString(36);
+}
+
+/**
+ * 与 React 的 mapIntoArray 一致：递归展开数组与可迭代对象，
+ * null/undefined/boolean 视为空节点，回调返回的元素会被赋予带前缀的 key
+ */
+function mapIntoArray(
+  children: any,
+  array: any[],
+  escapedPrefix: string,
+  nameSoFar: string,
+  callback: (child: any) => any
+): number {
+  // Solid 编译后的动态子节点是访问器，需要先求值
+  while (typeof children === "function" && !isReactElement(children)) {
+    if (children.length > 0) {
+      break;
+    }
+    children = children();
+  }
+  const type = typeof children;
+  if (type === "undefined" || type === "boolean") {
+    children = null;
+  }
+  const isIterable =
+    children !== null &&
+    type === "object" &&
+    typeof children[Symbol.iterator] === "function";
+  if (!isIterable) {
+    const child = children;
+    const mappedChild = callback(child);
+    const childKey =
+      nameSoFar === "" ? SEPARATOR + getElementKey(child, 0) : nameSoFar;
+    if (Array.isArray(mappedChild)) {
+      mapIntoArray(
+        mappedChild,
+        array,
+        escapeUserProvidedKey(childKey) + "/",
+        "",
+        (c) => c
+      );
+    } else if (mappedChild != null) {
+      if (isReactElement(mappedChild)) {
+        const userKey =
+          mappedChild.key != null &&
+          (!isReactElement(child) || child.key !== mappedChild.key)
+            ? escapeUserProvidedKey(String(mappedChild.key)) + "/"
+            : "";
+        array.push(
+          createReactElement(
+            mappedChild.type,
+            mappedChild.props,
+            escapedPrefix + userKey + childKey
+          )
+        );
+      } else {
+        array.push(mappedChild);
+      }
+    }
+    return 1;
+  }
+  let subtreeCount = 0;
+  const nextNamePrefix =
+    nameSoFar === "" ? SEPARATOR : nameSoFar + SUBSEPARATOR;
+  let index = 0;
+  for (const child of children as Iterable<any>) {
+    subtreeCount += mapIntoArray(
+      child,
+      array,
+      escapedPrefix,
+      nextNamePrefix + getElementKey(child, index++),
+      callback
+    );
+  }
+  return subtreeCount;
+}
+
+function mapChildren(
+  children: any,
+  fn: (child: any, index: number) => any
+): any[] | null | undefined {
+  if (children == null) {
+    return children;
+  }
+  const result: any[] = [];
+  let count = 0;
+  mapIntoArray(children, result, "", "", (child) => fn(child, count++));
+  return result;
+}
+
 export const Children = {
   map<T, C>(
     children: SingleOrArray<C>,
@@ -315,20 +794,7 @@ export const Children = {
   ): C extends null | undefined
     ? C
     : Array<Exclude<T, boolean | null | undefined>> {
-    const handler = (child: C, index: number) => {
-      switch (child) {
-        case null:
-        case undefined:
-          return child as any as T;
-        default:
-          return fn(child, index);
-      }
-    };
-    return (
-      Array.isArray(children)
-        ? children.map(handler)
-        : [handler(children as C, 0)]
-    ) as C extends null | undefined
+    return mapChildren(children, fn) as C extends null | undefined
       ? C
       : Exclude<T, boolean | null | undefined>[];
   },
@@ -336,36 +802,50 @@ export const Children = {
     children: SingleOrArray<C>,
     fn: (child: C, index: number) => void
   ): void {
-    if (Array.isArray(children)) {
-      children.forEach(fn);
-    } else {
-      fn(children as C, 0);
-    }
+    mapChildren(children, (child, index) => {
+      fn(child, index);
+    });
   },
   count(children: any): number {
-    return Array.isArray(children) ? children.length : 1;
+    let n = 0;
+    mapChildren(children, () => {
+      n++;
+    });
+    return n;
   },
   only<C>(children: C): C extends any[] ? never : C {
-    if (Array.isArray(children)) {
-      throw new Error("Children must be a single element");
+    if (!isSingleChild(children)) {
+      throw new Error(
+        "React.Children.only expected to receive a single React element child."
+      );
     } else {
       return children as C extends any[] ? never : C;
     }
   },
   toArray(
-    children: JSX.Element | JSX.Element[]
-  ): Array<Exclude<JSX.Element, boolean | null | undefined>> {
-    return (Array.isArray(children) ? children : [children]) as Array<
-      Exclude<JSX.Element, boolean | null | undefined>
+    children: ReactNode | ReactNode[]
+  ): Array<Exclude<ReactNode, boolean | null | undefined>> {
+    return (mapChildren(children, (child) => child) ?? []) as Array<
+      Exclude<ReactNode, boolean | null | undefined>
     >;
   },
 };
 
 export default {
   ...hooks,
+  Component,
+  PureComponent,
+  ErrorBoundary,
   createElement,
+  cloneElement,
   version,
+  Fragment,
   forwardRef,
+  memo,
+  lazy,
+  Suspense,
   isValidElement,
   Children,
+  enableStateDevtools,
+  disableStateDevtools,
 };
@@ -0,0 +1,20 @@
+import type { JSX } from "solid-js/jsx-runtime";
+import type { Key, ReactElement } from "./index";
+import { Fragment, jsx, jsxs } from "./jsx-runtime";
+
+export type { JSX };
+export { Fragment };
+
+/**
+ * 开发模式下的 JSX 转换入口，额外的调试参数直接忽略
+ */
+export function jsxDEV(
+  type: any,
+  props: Record<string, any> | null,
+  key?: Key | null,
+  isStaticChildren?: boolean,
+  source?: unknown,
+  self?: unknown
+): ReactElement {
+  return isStaticChildren ? jsxs(type, props, key) : jsx(type, props, key);
+}
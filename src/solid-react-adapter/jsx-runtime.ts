@@ -0,0 +1,36 @@
+import type { JSX } from "solid-js/jsx-runtime";
+import type { Key, ReactElement } from "./index";
+import { createReactElement, validateChildKeys } from "./patch";
+
+export type { JSX };
+export { Fragment } from "./index";
+
+/**
+ * 新版 JSX 转换（`react/jsx-runtime`）的入口，预编译的第三方库会直接调用它。
+ * children 已经包含在 props 中，key 作为第三个参数单独传入
+ */
+export function jsx(
+  type: any,
+  props: Record<string, any> | null,
+  key?: Key | null
+): ReactElement {
+  // 动态的 children 数组来自列表渲染，需要带有 key
+  validateChildKeys(props?.children);
+  return jsxs(type, props, key);
+}
+
+/**
+ * 与 {@link jsx} 相同，只是 children 为静态数组
+ */
+export function jsxs(
+  type: any,
+  props: Record<string, any> | null,
+  key?: Key | null
+): ReactElement {
+  const { key: propsKey, ...restProps } = props ?? {};
+  return createReactElement(
+    type,
+    restProps,
+    key === undefined ? propsKey : key
+  );
+}
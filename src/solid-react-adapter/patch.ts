@@ -1,10 +1,29 @@
-import { ComponentType } from "react";
+import type { FunctionComponent, Key, ReactElement } from "react";
 import {
+  batch,
+  createComponent,
+  createContext,
+  createMemo,
+  createRoot,
   createSignal as _createSignal,
+  DEV,
+  getOwner,
+  JSX,
+  onCleanup,
+  Owner,
+  runWithOwner,
   Setter,
   Signal,
   SignalOptions,
+  untrack,
+  useContext,
 } from "solid-js";
+import { insert, spread, SVGElements } from "solid-js/web";
+import { isClassComponent, mountClassComponent } from "./component";
+import { translateDomProps } from "./dom-props";
+import { isEventProp, listenEventProp } from "./events";
+import { bindFormProps, isFormProp } from "./forms";
+import { flushSyncEffects } from "./scheduler";
 
 export const microDelay = Promise.resolve();
 export const solidPatchDeps = Symbol("solid patch deps");
@@ -14,6 +33,176 @@ Object.defineProperty(Symbol, "solidPatchDeps", {
   writable: false,
   value: solidPatchDeps,
 });
+export const symbolValidate = Symbol("validate");
+Object.defineProperty(Symbol, "symbolValidate", {
+  configurable: true,
+  enumerable: false,
+  writable: false,
+  value: symbolValidate,
+});
+
+/**
+ * 是否为 useState、useMemo 等返回的响应式的值
+ */
+export function isReactiveValue(value: unknown): boolean {
+  return isObjectLike(value) && solidPatchDeps in value;
+}
+
+/**
+ * 读取 useState、useMemo 等返回的响应式的值，在 effect 中读取时会被追踪
+ */
+export function readReactiveValue(value: unknown): unknown {
+  if (!isReactiveValue(value)) {
+    return value;
+  }
+  // 数组类型的 state 不是函数，通过 symbolValidate 属性读取
+  return typeof value === "function"
+    ? (value as any as (validate: symbol) => unknown)(symbolValidate)
+    : (value as any)[symbolValidate];
+}
+
+/**
+ * 标记为可以被 deps 追踪的 accessor，与适配层 createSignal 返回的 signal 一致
+ */
+export function markTrackable<T extends Function>(accessor: T): T {
+  Object.defineProperty(accessor, solidPatchDeps, {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: [],
+  });
+  return accessor;
+}
+
+function isObjectLike(value: unknown): value is object {
+  return (
+    value !== null && (typeof value === "object" || typeof value === "function")
+  );
+}
+
+// 模板字符串、数学运算等需要原始值的场景，对象类型的 state 按普通对象的规则转换
+function toPrimitive(value: unknown, hint: string) {
+  if (!isObjectLike(value)) {
+    return value;
+  }
+  return hint === "number" ? Number(value) : String(value);
+}
+
+/**
+ * 将 signal 包装为可以像普通值一样使用的 state，读取属性时会自动收集依赖。
+ *
+ * 初始值为数组时 Proxy 的目标也是数组，`Array.isArray(state)` 为 true，
+ * Solid 插入时会遍历数组，遍历过程中同样会收集依赖；
+ * 其余情况 Proxy 的目标必须是函数，这样 Solid 才能把 state 当作响应式的值插入 JSX，
+ * 因此 `typeof state` 为 "function"，值为 null、undefined 时 state 本身也不为空。
+ * 目标在创建时确定，之后值的类型发生变化时不会随之改变；
+ * 其余的属性读取、`in`、`Object.keys`、展开、迭代、`instanceof` 都会转发给当前的值
+ */
+export function createStateProxy<S>(signal: () => S): S {
+  const isArray = Array.isArray(untrack(signal));
+  return new Proxy((isArray ? [] : signal) as () => S, {
+    get(_, key) {
+      const value: unknown = signal();
+      switch (key) {
+        case symbolValidate:
+          return value;
+        case Symbol.toPrimitive:
+          return (hint: string) => toPrimitive(value, hint);
+        case "toJSON":
+          // 值本身实现了 toJSON（如 Date）时交给它处理
+          return (jsonKey: string) =>
+            isObjectLike(value) && typeof (value as any).toJSON === "function"
+              ? (value as any).toJSON(jsonKey)
+              : value;
+        case solidPatchDeps:
+          return (signal as any as { [solidPatchDeps]: readonly unknown[] })[
+            solidPatchDeps
+          ];
+        default: {
+          if (value == null) {
+            return undefined;
+          }
+          const result = Reflect.get(Object(value), key);
+          // Map、Set 等内置类型的方法必须以原始对象作为 this 调用
+          return typeof result === "function" &&
+            !Object.prototype.hasOwnProperty.call(value, key)
+            ? result.bind(value)
+            : result;
+        }
+      }
+    },
+    has(_, key) {
+      if (key === solidPatchDeps) {
+        return Reflect.has(signal, key);
+      }
+      const value: unknown = signal();
+      return isObjectLike(value) && Reflect.has(value, key);
+    },
+    ownKeys() {
+      const value: unknown = signal();
+      const keys = value == null ? [] : Reflect.ownKeys(Object(value));
+      // 数组目标的 length 不可配置，必须出现在结果中
+      return isArray && keys.indexOf("length") === -1
+        ? [...keys, "length"]
+        : keys;
+    },
+    getOwnPropertyDescriptor(_, key) {
+      const value: unknown = signal();
+      if (isArray && key === "length") {
+        return {
+          value: Array.isArray(value) ? value.length : 0,
+          writable: true,
+          enumerable: false,
+          configurable: false,
+        };
+      }
+      const descriptor =
+        value == null
+          ? undefined
+          : Reflect.getOwnPropertyDescriptor(Object(value), key);
+      // 目标上并没有这些属性，只能声明为可配置的，否则违反 Proxy 的约束
+      return descriptor && { ...descriptor, configurable: true };
+    },
+    getPrototypeOf(target) {
+      const value: unknown = signal();
+      return value == null
+        ? Reflect.getPrototypeOf(target)
+        : Reflect.getPrototypeOf(Object(value));
+    },
+  }) as any as S;
+}
+
+// root 上配置的 identifierPrefix，useId 生成的 id 会带上这个前缀，避免多个 root 之间冲突
+export const IdentifierPrefixContext = createContext("");
+
+// 已修改但尚未提交的 signal，所有适配层的 signal 共用同一个队列，在同一个微任务中一起提交
+const pendingFlushes: Set<() => void> = new Set();
+let flushScheduled = false;
+
+/**
+ * 立即提交所有尚在微任务队列中等待的 signal 更新。
+ * 所有更新在同一个 batch 中提交，只会触发一次渲染，effect 不会读到只更新了一半的状态
+ */
+export function flushPendingSignals() {
+  if (pendingFlushes.size) {
+    const flushes = Array.from(pendingFlushes);
+    pendingFlushes.clear();
+    batch(() => flushes.forEach((flush) => flush()));
+  }
+  // DOM 更新完成后立即执行 layout effect
+  flushSyncEffects();
+}
+
+function schedulePendingFlush(flush: () => void) {
+  pendingFlushes.add(flush);
+  if (!flushScheduled) {
+    flushScheduled = true;
+    microDelay.then(() => {
+      flushScheduled = false;
+      flushPendingSignals();
+    });
+  }
+}
 
 export function createSignal<T>(): Signal<T | undefined>;
 export function createSignal<T>(
@@ -42,8 +231,9 @@ export function createSignal<T>(value?: T, options?: SignalOptions<T>) {
     wrappedSignal,
     ((value) => {
       if (!dirty) {
-        microDelay.then(() => {
-          (setSignal as any)(cache);
+        schedulePendingFlush(() => {
+          // state 本身可能是函数，不能直接传给 setter
+          (setSignal as any)(() => cache);
           dirty = false;
         });
         dirty = true;
@@ -55,54 +245,479 @@ export function createSignal<T>(value?: T, options?: SignalOptions<T>) {
   ];
 }
 
-export function wrapSolidComp(tag: any) {
-  if (typeof tag === "function") {
-    return tag;
-  } else {
-    return (props: any) => {
-      const element = document.createElement(tag + "");
-      const handleChild = (child: any) => {
-        switch (typeof child) {
-          case "function":
-            child = child();
-            break;
-          case "string":
-            child = document.createTextNode(child + "");
-            break;
-          default:
-            break;
-        }
-        if (child instanceof Node) {
-          element.appendChild(child);
-        }
-      };
-      Object.keys(props).forEach((key) => {
-        if (key === "children") {
-          const children = props.children;
-          if (Array.isArray(children)) {
-            children.forEach(handleChild);
-          } else {
-            handleChild(children);
-          }
-        } else {
-          if (key !== "key") {
-            const value = props[key];
-            if (value) {
-              element.setAttribute(key, value);
-            }
+/**
+ * 将值绑定到 ref 上，同时支持函数 ref 与对象 ref，返回解绑函数。
+ * 与 React 19 一致，函数 ref 返回的清理函数会在解绑时调用，否则以 null 再调用一次
+ */
+export function attachRef<T>(ref: any, value: T): () => void {
+  if (typeof ref === "function") {
+    const cleanup = ref(value);
+    return typeof cleanup === "function" ? cleanup : () => ref(null);
+  } else if (ref && typeof ref === "object") {
+    ref.current = value;
+    return () => {
+      ref.current = null;
+    };
+  }
+  return () => {};
+}
+
+/**
+ * 浅比较两个对象，与 React 中 PureComponent、memo 的比较方式一致
+ */
+export function shallowEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    a === null ||
+    typeof b !== "object" ||
+    b === null
+  ) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        Object.is(a[key], b[key])
+    )
+  );
+}
+
+export function getDisplayName(tag: any): string {
+  return (tag && (tag.displayName || tag.name)) || "Anonymous";
+}
+
+// 正在渲染的组件名称栈，渲染出错时用于生成 componentStack
+const renderingComponents: string[] = [];
+const componentStacks: WeakMap<object, string> = new WeakMap();
+
+/**
+ * 获取渲染阶段抛出的错误所对应的组件栈，格式与 React 的 componentStack 一致
+ */
+export function getComponentStack(error: unknown): string | undefined {
+  return typeof error === "object" && error !== null
+    ? componentStacks.get(error)
+    : undefined;
+}
+
+/**
+ * 获取当前正在渲染的组件名称，不在组件渲染过程中时返回 undefined
+ */
+export function getRenderingComponentName(): string | undefined {
+  return renderingComponents[renderingComponents.length - 1];
+}
+
+function renderWithComponentStack(name: string, render: () => JSX.Element) {
+  renderingComponents.push(name);
+  try {
+    return render();
+  } catch (error) {
+    // 只记录最内层的组件栈，外层组件只是在传递这个错误
+    if (
+      typeof error === "object" &&
+      error !== null &&
+      !componentStacks.has(error)
+    ) {
+      componentStacks.set(
+        error,
+        renderingComponents
+          .slice()
+          .reverse()
+          .map((componentName) => `\n    in ${componentName}`)
+          .join("")
+      );
+    }
+    throw error;
+  } finally {
+    renderingComponents.pop();
+  }
+}
+
+export const REACT_ELEMENT_TYPE = Symbol.for("react.element");
+export const REACT_FRAGMENT_TYPE = Symbol.for("react.fragment");
+
+/**
+ * Fragment 渲染为 Solid 数组，children 中的动态内容依旧保持响应
+ */
+function FragmentComp(props: { children?: any }): JSX.Element {
+  return createMemo(() => {
+    const children = props.children;
+    return Array.isArray(children) ? children : [children];
+  }) as unknown as JSX.Element;
+}
+
+interface KeyedEntry {
+  type: any;
+  generation: number;
+  element: JSX.Element;
+  setProps: Setter<Record<string, any>>;
+  dispose: () => void;
+}
+
+interface KeyedSlot {
+  generation: number;
+  cleanupRegistered: boolean;
+  entries: Map<string, KeyedEntry>;
+}
+
+// 以 owner（通常是 insert 的 render effect）为单位，记录其中带 key 的子节点
+const keyedSlots: WeakMap<Owner, KeyedSlot> = new WeakMap();
+// Solid 插入包含函数的数组时，每次更新都会新建 render effect，
+// 旧 render effect 中的子节点先暂存在父级 owner 上，交给新的 render effect 接手
+const orphanSlots: WeakMap<Owner, KeyedSlot> = new WeakMap();
+
+// 始终读取最新一次传入的 props，被复用的组件只需更新 props 即可
+function createLatestProps(
+  getProps: () => Record<string, any>
+): Record<string, any> {
+  return new Proxy({} as Record<string | symbol, any>, {
+    get(_, name) {
+      return getProps()[name as string];
+    },
+    has(_, name) {
+      return name in getProps();
+    },
+    ownKeys() {
+      return Reflect.ownKeys(getProps());
+    },
+    getOwnPropertyDescriptor(_, name) {
+      return name in getProps()
+        ? {
+            configurable: true,
+            enumerable: true,
+            get: () => getProps()[name as string],
           }
+        : undefined;
+    },
+  });
+}
+
+// 被复用的子节点会多次交给 Solid 插入，需要提前把元素描述对象与函数转换为稳定的结果
+function materialize(value: any): any {
+  if (isReactElement(value)) {
+    return materialize(value());
+  } else if (typeof value === "function") {
+    return createMemo(() => materialize(value()));
+  } else if (Array.isArray(value)) {
+    return value.map(materialize);
+  }
+  return value;
+}
+
+// Solid 开发环境中每次 createComponent 都会创建组件自己的 owner，
+// 同一个列表中的兄弟节点需要向上找到共同的插入位置（通常是插入列表的 render effect）
+function getInsertionOwner(owner: Owner): Owner {
+  while ((owner as { component?: unknown }).component && owner.owner) {
+    owner = owner.owner;
+  }
+  return owner;
+}
+
+/**
+ * 按 key 复用同一个 owner 下已经渲染过的子节点，与 Solid 的 mapArray 一样，
+ * 表达式重新执行时 key 与类型都不变的子节点会保留 DOM 与组件状态，只更新 props
+ */
+export function renderKeyed(
+  type: any,
+  key: Key,
+  props: Record<string, any>,
+  render: (props: Record<string, any>) => JSX.Element
+): JSX.Element {
+  const componentOwner = getOwner();
+  if (!componentOwner) {
+    return render(props);
+  }
+  const owner = getInsertionOwner(componentOwner);
+  const parentOwner = owner.owner;
+  let slot = keyedSlots.get(owner);
+  if (!slot && parentOwner) {
+    slot = orphanSlots.get(parentOwner);
+  }
+  if (!slot) {
+    slot = { generation: 0, cleanupRegistered: false, entries: new Map() };
+  }
+  keyedSlots.set(owner, slot);
+  if (parentOwner && orphanSlots.get(parentOwner) === slot) {
+    orphanSlots.delete(parentOwner);
+  }
+  const currentSlot = slot;
+  if (!currentSlot.cleanupRegistered) {
+    currentSlot.cleanupRegistered = true;
+    onCleanup(() => {
+      currentSlot.cleanupRegistered = false;
+      currentSlot.generation++;
+      if (parentOwner) {
+        orphanSlots.set(parentOwner, currentSlot);
+      }
+      // owner 重新执行完后，销毁这一轮没有被复用的子节点
+      microDelay.then(() => {
+        if (parentOwner && orphanSlots.get(parentOwner) === currentSlot) {
+          orphanSlots.delete(parentOwner);
         }
+        currentSlot.entries.forEach((entry, entryKey) => {
+          if (entry.generation < currentSlot.generation) {
+            currentSlot.entries.delete(entryKey);
+            entry.dispose();
+          }
+        });
       });
-      return element;
-    };
+    });
+  }
+  const keyStr = "" + key;
+  const entry = currentSlot.entries.get(keyStr);
+  if (entry && entry.generation === currentSlot.generation) {
+    if (DEV) {
+      console.error(
+        "Warning: Encountered two children with the same key, `%s`. Keys should be unique so that components maintain their identity across updates.",
+        keyStr
+      );
+    }
+    return render(props);
+  }
+  if (entry && entry.type === type) {
+    entry.generation = currentSlot.generation;
+    entry.setProps(() => props);
+    return entry.element;
+  }
+  if (entry) {
+    entry.dispose();
+  }
+  const [getProps, setProps] = _createSignal(props, { equals: false });
+  // 放在独立的 root 中，不随 owner 的重新执行而销毁，但依旧能读取 owner 上的 context
+  currentSlot.entries.set(
+    keyStr,
+    createRoot(
+      (dispose) => ({
+        type,
+        generation: currentSlot.generation,
+        element: materialize(render(createLatestProps(getProps))),
+        setProps,
+        dispose,
+      }),
+      owner
+    )
+  );
+  return currentSlot.entries.get(keyStr)!.element;
+}
+
+// 带 key 的子节点交给 renderKeyed 复用，其余的直接渲染
+function withKeyedReuse(
+  type: any,
+  render: (props: any) => JSX.Element
+): FunctionComponent<any> {
+  return (props: any) =>
+    props.key == null
+      ? render(props)
+      : renderKeyed(type, props.key, props, render);
+}
+
+/**
+ * 开发环境下检查列表中的元素是否都带有 key
+ */
+export function validateChildKeys(children: unknown) {
+  if (
+    DEV &&
+    Array.isArray(children) &&
+    children.some((child) => isReactElement(child) && child.key === null)
+  ) {
+    console.error(
+      'Warning: Each child in a list should have a unique "key" prop.'
+    );
   }
 }
 
+const KeyedFragmentComp = withKeyedReuse(REACT_FRAGMENT_TYPE, FragmentComp);
+
+const HTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const MATHML_NAMESPACE = "http://www.w3.org/1998/Math/MathML";
+
+// 子元素所在的命名空间，svg、math 中的元素需要通过 createElementNS 创建
+const NamespaceContext = createContext("");
+
+function getNamespace(tag: string, parentNamespace: string) {
+  switch (tag) {
+    case "svg":
+      return SVG_NAMESPACE;
+    case "math":
+      return MATHML_NAMESPACE;
+    default:
+      // 直接放进 Solid 模板中的元素拿不到外层的命名空间，按标签名推断
+      return (
+        parentNamespace ||
+        (SVGElements.has(tag) ? SVG_NAMESPACE : HTML_NAMESPACE)
+      );
+  }
+}
+
+function renderHostElement(tag: string, props: any): JSX.Element {
+  const parentNamespace = useContext(NamespaceContext);
+  const namespace = getNamespace(tag, parentNamespace);
+  // foreignObject 中的内容重新回到 HTML 命名空间
+  const childNamespace = tag === "foreignObject" ? HTML_NAMESPACE : namespace;
+  const element =
+    namespace === HTML_NAMESPACE
+      ? document.createElement(tag)
+      : document.createElementNS(namespace, tag);
+  const domProps: Record<string, unknown> = {};
+  const formPropNames: string[] = [];
+  Object.keys(props).forEach((key) => {
+    if (key === "children") {
+      // 交给 Solid 插入，元素描述对象、数组、文本等都能正确处理；
+      // 通过 accessor 读取 children，其中的动态表达式与数组类型的 state 变化时才会重新插入
+      const readChildren = () => {
+        const children = props.children;
+        return isReactiveValue(children)
+          ? () => readReactiveValue(children)
+          : children;
+      };
+      insert(
+        element,
+        childNamespace === (parentNamespace || HTML_NAMESPACE)
+          ? () => readChildren()
+          : createComponent(NamespaceContext.Provider, {
+              value: childNamespace,
+              get children() {
+                return (() => readChildren()) as unknown as JSX.Element;
+              },
+            })
+      );
+    } else if (key === "ref") {
+      onCleanup(attachRef(props.ref, element));
+    } else if (isEventProp(key)) {
+      onCleanup(listenEventProp(element, key, () => props[key]));
+    } else if (isFormProp(tag, key)) {
+      formPropNames.push(key);
+    } else if (key !== "key") {
+      Object.defineProperty(domProps, key, {
+        enumerable: true,
+        get: () => readReactiveValue(props[key]),
+      });
+    }
+  });
+  // className、style 等 React 属性先转换为 Solid 的形式，
+  // 再由 spread 在 render effect 中绑定到元素上，属性变化时自动更新
+  spread(
+    element,
+    translateDomProps(domProps),
+    namespace === SVG_NAMESPACE,
+    true
+  );
+  // 放在事件监听之后绑定，保证事件处理函数先执行
+  if (formPropNames.length) {
+    bindFormProps(element as HTMLInputElement, formPropNames, (name) =>
+      readReactiveValue(props[name])
+    );
+  }
+  return element;
+}
+
+// 同一个组件只包装一次，保证多次调用 wrapSolidComp 得到的组件引用不变
+const wrappedComps: WeakMap<Function, FunctionComponent<any>> = new WeakMap();
+
+export function wrapSolidComp(tag: any) {
+  if (tag === REACT_FRAGMENT_TYPE) {
+    return KeyedFragmentComp;
+  } else if (typeof tag === "function") {
+    let wrappedComp = wrappedComps.get(tag);
+    if (!wrappedComp) {
+      const name = getDisplayName(tag);
+      wrappedComp = withKeyedReuse(
+        tag,
+        isClassComponent(tag)
+          ? // 类组件不能直接当作函数调用，需要在当前 owner 下实例化
+            (props: any) =>
+              renderWithComponentStack(name, () =>
+                mountClassComponent(tag, props)
+              )
+          : (props: any) => renderWithComponentStack(name, () => tag(props))
+      );
+      wrappedComps.set(tag, wrappedComp);
+    }
+    return wrappedComp;
+  } else {
+    return withKeyedReuse(tag + "", (props: any) =>
+      renderHostElement(tag + "", props)
+    );
+  }
+}
+
+/**
+ * 创建惰性的元素描述对象，只有被放进 Solid 树中时才会真正创建组件和 DOM。
+ * 描述对象本身是一个函数，Solid 插入时会直接调用它，因此可以放在任意 JSX 表达式中
+ */
+export function createReactElement(
+  type: any,
+  props: Record<string, any>,
+  key?: Key | null
+): ReactElement {
+  const defaultProps = type && type.defaultProps;
+  if (defaultProps) {
+    Object.keys(defaultProps).forEach((name) => {
+      if (props[name] === undefined) {
+        props[name] = defaultProps[name];
+      }
+    });
+  }
+  // 创建描述对象时所在的 owner，它销毁时一并销毁渲染结果
+  const elementOwner = getOwner();
+  let rendered: { element: JSX.Element } | undefined;
+  const element = (() => {
+    if (key != null) {
+      return renderKeyed(type, key, props, (latestProps) =>
+        createComponent(wrapSolidComp(type), latestProps)
+      );
+    }
+    // 数组等表达式重新执行时会再次调用描述对象，只渲染一次并复用结果，避免组件被重新挂载
+    if (!rendered) {
+      const owner = getOwner();
+      rendered = createRoot((dispose) => {
+        const disposeOwner = elementOwner ?? owner;
+        if (disposeOwner) {
+          runWithOwner(disposeOwner, () => onCleanup(dispose));
+        }
+        return {
+          element: materialize(createComponent(wrapSolidComp(type), props)),
+        };
+      }, owner);
+    }
+    // 渲染时抛出的错误被错误边界处理后，生产环境的 createRoot 没有返回值
+    return rendered?.element;
+  }) as any;
+  Object.defineProperties(element, {
+    $$typeof: { value: REACT_ELEMENT_TYPE },
+    type: { enumerable: true, value: type },
+    props: { enumerable: true, value: props },
+    key: { enumerable: true, value: key == null ? null : "" + key },
+    ref: {
+      enumerable: true,
+      get: () => (props.ref === undefined ? null : props.ref),
+    },
+  });
+  return element;
+}
+
+export function isReactElement(target: any): target is ReactElement {
+  return typeof target === "function" && target.$$typeof === REACT_ELEMENT_TYPE;
+}
+
 declare global {
-  function __wrapSolidComp__(tag: any): ComponentType<any>;
+  function __wrapSolidComp__(tag: any): FunctionComponent<any>;
+  function __translateDomProps__(
+    props: Record<string, unknown> | null | undefined
+  ): Record<string, unknown>;
 
   interface Window {
-    __wrapSolidComp__(tag: any): ComponentType<any>;
+    __wrapSolidComp__(tag: any): FunctionComponent<any>;
+    __translateDomProps__(
+      props: Record<string, unknown> | null | undefined
+    ): Record<string, unknown>;
   }
 }
 
@@ -113,4 +728,11 @@ export function enablePatch() {
     writable: false,
     value: wrapSolidComp,
   });
+  // 经过 loader 转换的原生标签，React 风格的属性同样在运行时转换
+  Object.defineProperty(window, "__translateDomProps__", {
+    configurable: true,
+    enumerable: false,
+    writable: false,
+    value: translateDomProps,
+  });
 }
@@ -0,0 +1,139 @@
+import { untrack } from "solid-js";
+import { flushPendingSignals, microDelay } from "./patch";
+
+/**
+ * 三个 Effect 系列按阶段依次执行：insertion -> layout -> passive
+ */
+export type EffectPhase = "insertion" | "layout" | "passive";
+
+type EffectJob = () => void | (() => void);
+
+/**
+ * 同一个 useEffect 调用对应一个实例，记录上一次 effect 返回的清理函数
+ */
+export interface EffectInstance {
+  cleanup?: void | (() => void);
+}
+
+// 等待执行的 effect，值为 null 表示组件已销毁，只需要执行清理函数
+const queues: Record<EffectPhase, Map<EffectInstance, EffectJob | null>> = {
+  insertion: new Map(),
+  layout: new Map(),
+  passive: new Map(),
+};
+
+let syncFlushScheduled = false;
+let passiveFlushScheduled = false;
+let flushing = false;
+
+// passive effect 要等到浏览器绘制之后再执行，MessageChannel 的回调是宏任务，会排在绘制之后。
+// 与 React 的 scheduler 一致，Node 环境中优先使用 setImmediate，MessageChannel 会阻止进程退出
+const postPassiveFlush = (() => {
+  const localSetImmediate = (globalThis as any).setImmediate;
+  if (typeof localSetImmediate === "function") {
+    return () => {
+      localSetImmediate(flushPassiveEffects);
+    };
+  }
+  if (typeof MessageChannel !== "undefined") {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => flushPassiveEffects();
+    return () => channel.port2.postMessage(null);
+  }
+  return () => {
+    setTimeout(flushPassiveEffects, 0);
+  };
+})();
+
+function runPhase(phase: EffectPhase) {
+  const queue = queues[phase];
+  if (!queue.size) {
+    return;
+  }
+  const jobs = Array.from(queue);
+  queue.clear();
+  // 某个 effect 或清理函数抛出错误时，同一阶段的其余 effect 依旧要执行，结束后再抛出第一个错误
+  const errors: unknown[] = [];
+  const run = (fn: () => void) => {
+    try {
+      fn();
+    } catch (error) {
+      errors.push(error);
+    }
+  };
+  untrack(() => {
+    // 同一阶段中先执行完所有的清理函数，再执行新的 effect
+    jobs.forEach(([instance]) => {
+      const cleanup = instance.cleanup;
+      instance.cleanup = undefined;
+      if (typeof cleanup === "function") {
+        run(cleanup);
+      }
+    });
+    jobs.forEach(([instance, job]) => {
+      if (job) {
+        run(() => {
+          instance.cleanup = job();
+        });
+      }
+    });
+  });
+  if (errors.length) {
+    throw errors[0];
+  }
+}
+
+/**
+ * 同步执行所有等待中的 insertion、layout effect，
+ * layout effect 中产生的状态更新也会立即提交，直到没有新的 effect 为止
+ */
+export function flushSyncEffects() {
+  if (flushing) {
+    return;
+  }
+  flushing = true;
+  try {
+    do {
+      runPhase("insertion");
+      runPhase("layout");
+      flushPendingSignals();
+    } while (queues.insertion.size || queues.layout.size);
+  } finally {
+    flushing = false;
+  }
+  if (queues.passive.size && !passiveFlushScheduled) {
+    passiveFlushScheduled = true;
+    postPassiveFlush();
+  }
+}
+
+/**
+ * 执行所有等待中的 passive effect，执行前先保证 insertion、layout effect 已经执行完毕
+ */
+export function flushPassiveEffects() {
+  passiveFlushScheduled = false;
+  flushSyncEffects();
+  runPhase("passive");
+  // passive effect 中产生的更新会进入下一次提交
+  flushSyncEffects();
+}
+
+/**
+ * 将 effect 放入对应阶段的队列，job 为 null 表示组件销毁。
+ * 同一实例在执行前多次调度时只保留最后一次
+ */
+export function scheduleEffect(
+  phase: EffectPhase,
+  instance: EffectInstance,
+  job: EffectJob | null
+) {
+  queues[phase].set(instance, job);
+  // 同一次提交中调度的 effect 在当前任务结束前统一执行
+  if (!syncFlushScheduled) {
+    syncFlushScheduled = true;
+    microDelay.then(() => {
+      syncFlushScheduled = false;
+      flushSyncEffects();
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { createRoot, hydrateRoot, version } from "./index";
+
+export type { Container, Root, RootChildren, RootOptions } from "./index";
+export { createRoot, hydrateRoot, version };
+
+export default {
+  createRoot,
+  hydrateRoot,
+  version,
+};
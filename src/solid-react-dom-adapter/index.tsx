@@ -0,0 +1,183 @@
+import type { ReactNode } from "react";
+import { batch } from "solid-js";
+import type { JSX } from "solid-js/jsx-runtime";
+import {
+  createComponent,
+  hydrate,
+  Portal,
+  render as _render,
+} from "solid-js/web";
+import {
+  flushPendingSignals,
+  IdentifierPrefixContext,
+} from "../solid-react-adapter/patch";
+
+export const version = "19.1.0";
+
+export type Container = Element | DocumentFragment;
+
+/**
+ * 允许直接传入 ReactNode，也允许传入一个返回 ReactNode 的函数，
+ * 后者可以保证组件在 root 的 owner 下创建，从而能被正确销毁
+ */
+export type RootChildren = ReactNode | (() => ReactNode);
+
+export interface RootOptions {
+  /**
+   * A string prefix React uses for IDs generated by `useId`.
+   * Useful to avoid conflicts when using multiple roots on the same page.
+   */
+  identifierPrefix?: string;
+}
+
+export interface Root {
+  render(children: RootChildren): void;
+  unmount(): void;
+}
+
+function toCode(children: RootChildren, options: RootOptions = {}) {
+  const code = (
+    typeof children === "function" ? children : () => children
+  ) as () => JSX.Element;
+  return () =>
+    createComponent(IdentifierPrefixContext.Provider, {
+      value: options.identifierPrefix ?? "",
+      get children() {
+        return code();
+      },
+    });
+}
+
+function makeRoot(
+  container: Container,
+  options?: RootOptions,
+  dispose?: () => void
+): Root {
+  return {
+    render(children) {
+      // 重复 render 时先销毁上一次的渲染结果
+      if (dispose) {
+        dispose();
+      }
+      dispose = _render(toCode(children, options), container);
+    },
+    unmount() {
+      if (dispose) {
+        dispose();
+        dispose = undefined;
+      }
+    },
+  };
+}
+
+/**
+ * createRoot lets you create a root to display React components inside a browser DOM node.
+ *
+ * @see {@link https://react.dev/reference/react-dom/client/createRoot}
+ */
+export function createRoot(container: Container, options?: RootOptions): Root {
+  return makeRoot(container, options);
+}
+
+/**
+ * Same as `createRoot()`, but is used to hydrate a container whose HTML contents were rendered by ReactDOMServer.
+ *
+ * @see {@link https://react.dev/reference/react-dom/client/hydrateRoot}
+ */
+export function hydrateRoot(
+  container: Container,
+  initialChildren: RootChildren,
+  options?: RootOptions
+): Root {
+  return makeRoot(
+    container,
+    options,
+    hydrate(toCode(initialChildren, options), container)
+  );
+}
+
+// 旧版 render 接口创建的 root，按容器记录，以便 unmountComponentAtNode 时找回
+const legacyRoots: WeakMap<Container, Root> = new WeakMap();
+
+/**
+ * @deprecated See https://react.dev/blog/2022/03/08/react-18-upgrade-guide#updates-to-client-rendering-apis
+ */
+export function render(
+  children: RootChildren,
+  container: Container,
+  callback?: () => void
+): null {
+  let root = legacyRoots.get(container);
+  if (!root) {
+    root = createRoot(container);
+    legacyRoots.set(container, root);
+  }
+  root.render(children);
+  if (callback) {
+    callback();
+  }
+  return null;
+}
+
+/**
+ * @deprecated See https://react.dev/blog/2022/03/08/react-18-upgrade-guide#updates-to-client-rendering-apis
+ */
+export function unmountComponentAtNode(container: Container): boolean {
+  const root = legacyRoots.get(container);
+  if (root) {
+    root.unmount();
+    legacyRoots.delete(container);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * createPortal lets you render some children into a different part of the DOM.
+ *
+ * @see {@link https://react.dev/reference/react-dom/createPortal}
+ */
+export function createPortal(
+  children: ReactNode,
+  container: Container,
+  key?: string | null
+): JSX.Element {
+  return <Portal mount={container}>{children as JSX.Element}</Portal>;
+}
+
+/**
+ * flushSync lets you force React to flush any updates inside the provided callback synchronously.
+ *
+ * @see {@link https://react.dev/reference/react-dom/flushSync}
+ */
+export function flushSync<R>(fn: () => R): R;
+export function flushSync(): void;
+export function flushSync<R>(fn?: () => R): R | undefined {
+  const result = fn ? fn() : undefined;
+  flushPendingSignals();
+  return result;
+}
+
+/**
+ * 适配层的状态更新本身就会在同一个微任务中合并提交，这里额外用 Solid 的 batch 包裹，
+ * 回调中直接修改的 Solid signal 也会合并为一次更新
+ */
+export function unstable_batchedUpdates<A, R>(callback: (a: A) => R, a: A): R;
+export function unstable_batchedUpdates<R>(callback: () => R): R;
+export function unstable_batchedUpdates<A, R>(
+  callback: (a?: A) => R,
+  a?: A
+): R {
+  return batch(() => callback(a));
+}
+
+export default {
+  version,
+  createRoot,
+  hydrateRoot,
+  render,
+  unmountComponentAtNode,
+  createPortal,
+  flushSync,
+  unstable_batchedUpdates,
+};
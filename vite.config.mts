@@ -1,10 +1,10 @@
-import react from "@vitejs/plugin-react";
 import fs from "fs";
 import { fileURLToPath, URL } from "node:url";
 import { getPort } from "portfinder-sync";
 import { defineConfig } from "vite";
 import solid from "vite-plugin-solid";
 import { viteStaticCopy } from "vite-plugin-static-copy";
+import solidReact from "./loader/solid-react-vite-plugin.mjs";
 // HTTPS 打开下面一行
 // import mkcert from "vite-plugin-mkcert";
 
@@ -21,8 +21,12 @@ export default defineConfig(() => {
       // XXX: JSON.stringify("xxx"),
     },
     plugins: [
-      react(),
-      solid(),
+      solidReact({
+        // 需要经过 solid-react-loader 转换的 node_modules 包
+        include: ["@ant-design/icons"],
+      }),
+      // loader 会把 createElement 转换为 JSX，js/ts 文件也需要经过 solid 编译
+      solid({ extensions: [".js", ".ts"] }),
       // HTTPS 打开下面一行
       // mkcert(),
       ...(fs.existsSync(STATIC_PATH)
@@ -0,0 +1,34 @@
+import solid from "vite-plugin-solid";
+import { defineConfig } from "vitest/config";
+import solidReact from "./loader/solid-react-vite-plugin.mjs";
+
+export default defineConfig({
+  plugins: [
+    solidReact(),
+    // loader 会把 createElement 转换为 JSX，js/ts 文件也需要经过 solid 编译
+    solid({ extensions: [".js", ".ts"] }),
+  ],
+  resolve: {
+    conditions: ["browser", "development"],
+  },
+  test: {
+    environment: "jsdom",
+    include: ["src/**/__tests__/**/*.test.{ts,tsx}"],
+    setupFiles: ["./src/solid-react-adapter/__tests__/setup.ts"],
+    deps: {
+      optimizer: {
+        web: {
+          // 依赖 react 的第三方包需要预构建，其中的 import、require("react") 才会经过 alias 得到适配层
+          enabled: true,
+          include: ["react-redux", "use-sync-external-store/with-selector.js"],
+        },
+      },
+    },
+    server: {
+      deps: {
+        // 预构建的产物需要交给 Vite 执行，直接由 Node 加载时 react 会指向真正的 React
+        inline: [/node_modules\/\.vite\//],
+      },
+    },
+  },
+});
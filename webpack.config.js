@@ -58,6 +58,7 @@ module.exports = {
     alias: {
       "@": SRC_PATH,
       react: path.join(SRC_PATH, "solid-react-adapter"),
+      "react-dom": path.join(SRC_PATH, "solid-react-dom-adapter"),
     },
   },
 